@@ -1,78 +1,153 @@
 import {
   Connection,
-  Keypair,
   PublicKey,
   LAMPORTS_PER_SOL,
   Transaction,
-  sendAndConfirmTransaction,
   SystemProgram,
+  TransactionInstruction,
 } from "@solana/web3.js";
 
 import {
   createAssociatedTokenAccountInstruction,
   getAccount,
-  TOKEN_2022_PROGRAM_ID, // Ensure correct program ID for your tokens
   getAssociatedTokenAddressSync,
   getAssociatedTokenAddress,
   NATIVE_MINT,
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
   createSyncNativeInstruction, // Represents wrapped SOL (native currency)
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
 } from "@solana/spl-token";
 
-import { FEE_TIER, Market, Network, Pair } from "@invariant-labs/sdk-eclipse";
+import { FEE_TIER, Market, Pair } from "@invariant-labs/sdk-eclipse";
+import { PoolStructure } from "@invariant-labs/sdk-eclipse/lib/market";
 import BN from "bn.js";
 
-const TICK_CROSSES_PER_IX_NATIVE_TOKEN = 40;
+export const TICK_CROSSES_PER_IX_NATIVE_TOKEN = 40;
 const TICK_VIRTUAL_CROSSES_PER_IX = 20;
 
 // load .env file
 import dotenv from "dotenv";
-import base58 from "bs58";
+import { getTokenBySymbol, getTokenProgram } from "./token-registry";
+import { getQuotes, isQuoteOk, PoolQuote, SwapMode } from "./quote";
 import {
-  SimulationStatus,
-  swapSimulation,
-  toDecimal,
-} from "@invariant-labs/sdk-eclipse/lib/utils";
+  DEFAULT_SLIPPAGE_BPS,
+  DEFAULT_SWAP_SIZING,
+  DEFAULT_WRAP_SIZING,
+  MAX_NOTIONAL_USD,
+} from "./config";
+import {
+  assertMinAmountOut,
+  resolveSlippageBps,
+  slippageToDecimal,
+} from "./slippage";
+import {
+  formatSizingStrategy,
+  parseSizingOptions,
+  sizeTrade,
+  SizingOptions,
+} from "./sizing";
+import { getDefaultSigner, signAndSendTransaction, Signer } from "./signer";
+import {
+  provesNotLanded,
+  SendFailureKind,
+  TransactionFailedError,
+} from "./transaction-sender";
+import { recordJournalEntry } from "./journal";
+import { reconcileAmounts, reconcileSwap, Reconciliation } from "./reconcile";
+import { getCachedPools, getCachedPoolsForPair } from "./pool-cache";
+import { ComputeBudgetOptions } from "./compute-budget";
+import { getNetworkConfig } from "./network";
+import { FailoverConnection } from "./rpc";
+import {
+  getPaperBalance,
+  hasPaperBalance,
+  isDryRun,
+  PaperChange,
+  PaperFill,
+  setDryRun,
+  simulateOnPaper,
+} from "./paper";
+import { getCliOption } from "./cli";
 dotenv.config();
 
-// Ensure WALLET_PRIVATE_KEY is set in your .env file
-const secret_key = process.env.WALLET_PRIVATE_KEY;
-if (!secret_key) {
-  throw new Error("WALLET_PRIVATE_KEY not found in .env file");
-}
-
-// convert secret key to base58
-const secretKeyBase58 = base58.decode(secret_key);
-const keypair = Keypair.fromSecretKey(secretKeyBase58);
-
-// Eclipse mainnet RPC endpoint
-const ECLIPSE_RPC_URL = "https://mainnetbeta-rpc.eclipse.xyz";
 
-// Token addresses on Eclipse
+// Token addresses on Eclipse come from the network's token registry (tokens.json on mainnet).
 // NATIVE_MINT is the PublicKey for wrapped SOL (So111...1112),
 // which is referred to as "ETH" in the documentation for native token swaps.
-const ETH_MINT = NATIVE_MINT;
-
-// USDT_MINT should be the actual USDT token address on Eclipse
-const USDT_MINT = new PublicKey("CEBP3CqAbW4zdZA57H2wfaSG1QNdzQ72GiQEbQXyW9Tm"); // USDT
+export const ETH_MINT = NATIVE_MINT;
+
+// Mint of a registered symbol, read when it is needed so a network without it
+// still starts
+export function requireRegisteredMint(symbol: string): PublicKey {
+  const token = getTokenBySymbol(symbol);
+  if (!token) {
+    const network = getNetworkConfig();
+    throw new Error(
+      `${symbol} is missing from the ${network.name} token registry at ${
+        process.env.TOKEN_REGISTRY_PATH || network.tokenRegistryPath
+      }, add its mint there`
+    );
+  }
+  return token.mint;
+}
 
-// USDC_MINT should be the actual USDC token address on Eclipse
-const USDC_MINT = new PublicKey("AKEWE7Bgh87GPp171b4cJPSSZfmZwQ3KaqYqXoKLNAEE"); // USDC
+// RPC endpoints of the configured network, rotated on failures
+export const connection: Connection = new FailoverConnection(
+  getNetworkConfig().rpcUrls,
+  "confirmed"
+);
+
+/**
+ * Signs and sends an owner's transaction. In dry-run mode it is simulated
+ * instead, and applied to the owner's paper balances of the given mints.
+ * @param expected Paper changes to apply if the wallet can't cover the
+ * simulation on chain, the fill is then marked estimated
+ */
+export async function sendOrSimulate(
+  transaction: Transaction,
+  owner: Signer,
+  computeBudget: ComputeBudgetOptions | undefined,
+  mints: PublicKey[],
+  expected?: PaperChange[]
+): Promise<Partial<PaperFill> & { signature: string }> {
+  if (isDryRun()) {
+    return simulateOnPaper(
+      connection,
+      transaction,
+      owner.publicKey,
+      mints,
+      expected
+    );
+  }
+  return {
+    signature: await signAndSendTransaction(
+      connection,
+      transaction,
+      [owner],
+      computeBudget
+    ),
+  };
+}
 
-const connection = new Connection(ECLIPSE_RPC_URL, "confirmed");
+// Journal status of a transaction that went through, or was simulated in a dry run
+export function settledStatus(): "confirmed" | "simulated" {
+  return isDryRun() ? "simulated" : "confirmed";
+}
 
 // Function to create an associated token account for a given mint
-export async function createAssociatedTokenAccount(mint: PublicKey) {
-  // Determine which token program to use based on the mint
-  const tokenProgram =
-    mint.equals(USDT_MINT) || mint.equals(USDC_MINT)
-      ? TOKEN_2022_PROGRAM_ID
-      : TOKEN_PROGRAM_ID;
+export async function createAssociatedTokenAccount(
+  mint: PublicKey,
+  owner: Signer = getDefaultSigner(),
+  computeBudget: ComputeBudgetOptions = {}
+) {
+  // Determine which token program owns the mint
+  const tokenProgram = await getTokenProgram(connection, mint);
 
   const associatedTokenAddress = getAssociatedTokenAddressSync(
     mint,
-    keypair.publicKey,
+    owner.publicKey,
     true, // allow owner off curve
     tokenProgram // Use the correct token program
   );
@@ -80,6 +155,13 @@ export async function createAssociatedTokenAccount(mint: PublicKey) {
   console.log(`Checking associated token account for ${mint.toBase58()}...`);
   console.log(`Associated token address: ${associatedTokenAddress.toBase58()}`);
 
+  if (isDryRun() && hasPaperBalance(owner.publicKey, mint)) {
+    console.log(
+      `Associated token account already exists on paper: ${associatedTokenAddress.toBase58()}`
+    );
+    return;
+  }
+
   try {
     await getAccount(
       connection,
@@ -94,33 +176,55 @@ export async function createAssociatedTokenAccount(mint: PublicKey) {
     console.log(`Creating associated token account for ${mint.toBase58()}...`);
     const transaction = new Transaction().add(
       createAssociatedTokenAccountInstruction(
-        keypair.publicKey,
+        owner.publicKey,
         associatedTokenAddress,
-        keypair.publicKey,
+        owner.publicKey,
         mint,
         tokenProgram, // Use the correct token program
         ASSOCIATED_TOKEN_PROGRAM_ID
       )
     );
 
-    const signature = await sendAndConfirmTransaction(connection, transaction, [
-      keypair,
-    ]);
-    console.log(`Transaction successful: ${signature}`);
+    const entry = {
+      type: "ata" as const,
+      wallet: owner.publicKey.toBase58(),
+      mint: mint.toBase58(),
+      account: associatedTokenAddress.toBase58(),
+    };
+    try {
+      const { signature } = await sendOrSimulate(
+        transaction,
+        owner,
+        computeBudget,
+        [mint]
+      );
+      recordJournalEntry({ ...entry, status: settledStatus(), signature });
+      console.log(`Transaction successful: ${signature}`);
+    } catch (error) {
+      recordJournalEntry({
+        ...entry,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
   }
 }
 
 //  checkTokenBalance function
 export async function checkTokenBalance(mint: PublicKey) {
+  if (isDryRun()) {
+    const balance = await getTokenBalance(mint);
+    console.log(`Paper token balance for ${mint.toBase58()}: ${balance}`);
+    return;
+  }
+
   // Use the correct token program
-  const tokenProgram =
-    mint.equals(USDT_MINT) || mint.equals(USDC_MINT)
-      ? TOKEN_2022_PROGRAM_ID
-      : TOKEN_PROGRAM_ID;
+  const tokenProgram = await getTokenProgram(connection, mint);
 
   const associatedTokenAddress = getAssociatedTokenAddressSync(
     mint,
-    keypair.publicKey,
+    getDefaultSigner().publicKey,
     true, // allow owner off curve
     tokenProgram
   );
@@ -143,16 +247,24 @@ export async function checkTokenBalance(mint: PublicKey) {
 
 // check balance of the wallet
 export async function checkBalance() {
-  const balance = await connection.getBalance(keypair.publicKey);
-  console.log(`Wallet balance: ${balance / LAMPORTS_PER_SOL} ETH`);
+  const balance = (await getNativeBalance()).toNumber();
+  console.log(
+    `${isDryRun() ? "Paper wallet" : "Wallet"} balance: ${
+      balance / LAMPORTS_PER_SOL
+    } ETH`
+  );
 }
 
 // Function to wrap SOL into wrapped SOL (WSOL) tokens
-export async function wrapSol(amountInSol: number): Promise<PublicKey> {
+export async function wrapSol(
+  amountInSol: number,
+  owner: Signer = getDefaultSigner(),
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<PublicKey> {
   const lamportsToWrap = Math.floor(amountInSol * LAMPORTS_PER_SOL);
 
   // Check if we have enough balance
-  const balance = await connection.getBalance(keypair.publicKey);
+  const balance = (await getNativeBalance(owner.publicKey)).toNumber();
   if (balance < lamportsToWrap + 5000) {
     // Reserve 5000 lamports for transaction fees
     throw new Error(
@@ -164,7 +276,7 @@ export async function wrapSol(amountInSol: number): Promise<PublicKey> {
 
   const associatedTokenAccount = await getAssociatedTokenAddress(
     NATIVE_MINT,
-    keypair.publicKey
+    owner.publicKey
   );
 
   console.log(
@@ -193,9 +305,9 @@ export async function wrapSol(amountInSol: number): Promise<PublicKey> {
   if (!accountExists) {
     instructions.push(
       createAssociatedTokenAccountInstruction(
-        keypair.publicKey,
+        owner.publicKey,
         associatedTokenAccount,
-        keypair.publicKey,
+        owner.publicKey,
         NATIVE_MINT
       )
     );
@@ -204,7 +316,7 @@ export async function wrapSol(amountInSol: number): Promise<PublicKey> {
   // Add transfer and sync instructions
   instructions.push(
     SystemProgram.transfer({
-      fromPubkey: keypair.publicKey,
+      fromPubkey: owner.publicKey,
       toPubkey: associatedTokenAccount,
       lamports: lamportsToWrap,
     }),
@@ -214,38 +326,75 @@ export async function wrapSol(amountInSol: number): Promise<PublicKey> {
   const wrapTransaction = new Transaction().add(...instructions);
 
   try {
-    const signature = await sendAndConfirmTransaction(
-      connection,
+    const { signature, estimated } = await sendOrSimulate(
       wrapTransaction,
-      [keypair]
+      owner,
+      computeBudget,
+      [NATIVE_MINT],
+      [
+        { mint: null, delta: new BN(-lamportsToWrap) },
+        { mint: NATIVE_MINT, delta: new BN(lamportsToWrap) },
+      ]
     );
+    recordJournalEntry({
+      type: "wrap",
+      status: settledStatus(),
+      wallet: owner.publicKey.toBase58(),
+      lamports: lamportsToWrap.toString(),
+      signature,
+      estimated: estimated || undefined,
+    });
     console.log(`SOL wrapped successfully! Transaction: ${signature}`);
     return associatedTokenAccount;
   } catch (error) {
     console.error("Failed to wrap SOL:", error);
+    recordJournalEntry({
+      type: "wrap",
+      status: "failed",
+      wallet: owner.publicKey.toBase58(),
+      lamports: lamportsToWrap.toString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
     throw error;
   }
 }
 
 // Initialize Invariant Market
 export async function initializeInvariantMarket(): Promise<Market> {
+  const network = getNetworkConfig();
   const market = await Market.build(
-    Network.MAIN as any, // Use string instead of Network enum
-    keypair as any, // Use keypair directly
+    network.invariantNetwork,
+    getDefaultSigner() as any, // Only used as the default owner, swaps always pass theirs
     connection,
-    new PublicKey("iNvTyprs4TX8m6UeUEkeqDFjAL9zRCRWcexK9Sd4WEU") // Invariant program ID on Eclipse
+    network.programId
   );
 
-  console.log("Invariant market initialized");
+  console.log(`Invariant market initialized on ${network.name}`);
   return market;
 }
 
+// Lazily build the Invariant market once and reuse it across calls
+let marketPromise: Promise<Market> | null = null;
+export function getMarket(): Promise<Market> {
+  if (!marketPromise) {
+    marketPromise = initializeInvariantMarket().catch((error) => {
+      marketPromise = null;
+      throw error;
+    });
+  }
+  return marketPromise;
+}
+
 // Get available wrapped SOL balance for trading
 export async function getAvailableWrappedSolBalance(): Promise<BN> {
+  if (isDryRun()) {
+    return getTokenBalance(ETH_MINT);
+  }
+
   const tokenProgram = TOKEN_PROGRAM_ID; // ETH_MINT uses TOKEN_PROGRAM_ID
   const associatedTokenAddress = getAssociatedTokenAddressSync(
     ETH_MINT,
-    keypair.publicKey,
+    getDefaultSigner().publicKey,
     true,
     tokenProgram
   );
@@ -264,22 +413,61 @@ export async function getAvailableWrappedSolBalance(): Promise<BN> {
   }
 }
 
-// Get all pools for specific token pairs with their actual addresses and fee values
-export async function getPoolsForTokenPair(
-  market: Market,
-  tokenA: PublicKey,
-  tokenB: PublicKey
-): Promise<Array<{ pool: any; address: PublicKey }>> {
-  const allPools = await market.getAllPools();
-  const matchingPools = allPools.filter(
-    (pool) =>
-      (pool.tokenX.equals(tokenA) && pool.tokenY.equals(tokenB)) ||
-      (pool.tokenX.equals(tokenB) && pool.tokenY.equals(tokenA))
+// Get the wallet's balance of any token, its paper balance in dry-run mode
+export async function getTokenBalance(
+  mint: PublicKey,
+  owner: PublicKey = getDefaultSigner().publicKey
+): Promise<BN> {
+  return isDryRun()
+    ? getPaperBalance(owner, mint, () => readTokenBalance(mint, owner))
+    : readTokenBalance(mint, owner);
+}
+
+// Get the wallet's native ETH in lamports, its paper balance in dry-run mode
+export async function getNativeBalance(
+  owner: PublicKey = getDefaultSigner().publicKey
+): Promise<BN> {
+  const readLive = async () => new BN(await connection.getBalance(owner));
+  return isDryRun() ? getPaperBalance(owner, null, readLive) : readLive();
+}
+
+// On-chain balance of any token, 0 if the account doesn't exist
+async function readTokenBalance(mint: PublicKey, owner: PublicKey): Promise<BN> {
+  const tokenProgram = await getTokenProgram(connection, mint);
+  const associatedTokenAddress = getAssociatedTokenAddressSync(
+    mint,
+    owner,
+    true,
+    tokenProgram
   );
 
-  // Get pool addresses for each matching pool
-  const poolsWithAddresses = [];
-  for (const pool of matchingPools) {
+  try {
+    const account = await getAccount(
+      connection,
+      associatedTokenAddress,
+      "confirmed",
+      tokenProgram
+    );
+    return new BN(account.amount.toString());
+  } catch (error) {
+    return new BN(0);
+  }
+}
+
+// A pool together with its on-chain address
+export interface PoolWithAddress {
+  pool: PoolStructure;
+  address: PublicKey;
+}
+
+// Fetch every pool in the market with its actual address, see pool-cache.ts for the cached copy
+export async function fetchAllPoolsWithAddresses(
+  market: Market
+): Promise<PoolWithAddress[]> {
+  const allPools = await market.getAllPools();
+
+  const poolsWithAddresses: PoolWithAddress[] = [];
+  for (const pool of allPools) {
     try {
       // Create a temporary pair to get the address using the actual pool's fee structure
       const tempFeeTier = {
@@ -301,159 +489,689 @@ export async function getPoolsForTokenPair(
   return poolsWithAddresses;
 }
 
+// Get every pool in the market with its actual address, from the pool cache
+export async function getAllPoolsWithAddresses(
+  market: Market
+): Promise<PoolWithAddress[]> {
+  return getCachedPools(market);
+}
+
+// Get all pools for specific token pairs with their actual addresses and fee values
+export async function getPoolsForTokenPair(
+  market: Market,
+  tokenA: PublicKey,
+  tokenB: PublicKey
+): Promise<PoolWithAddress[]> {
+  return getCachedPoolsForPair(market, tokenA, tokenB);
+}
+
+// Instructions that move native ETH into the owner's WSOL account, creating it if needed
+export function buildWrapInstructions(
+  owner: PublicKey,
+  lamports: BN | number
+): TransactionInstruction[] {
+  const associatedTokenAccount = getAssociatedTokenAddressSync(
+    NATIVE_MINT,
+    owner
+  );
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      associatedTokenAccount,
+      owner,
+      NATIVE_MINT
+    ),
+    SystemProgram.transfer({
+      fromPubkey: owner,
+      toPubkey: associatedTokenAccount,
+      lamports: BigInt(lamports.toString()),
+    }),
+    createSyncNativeInstruction(associatedTokenAccount),
+  ];
+}
+
+// Instruction that closes the owner's WSOL account, returning all of it as native ETH
+export function buildUnwrapInstruction(owner: PublicKey): TransactionInstruction {
+  const associatedTokenAccount = getAssociatedTokenAddressSync(
+    NATIVE_MINT,
+    owner
+  );
+  return createCloseAccountInstruction(associatedTokenAccount, owner, owner);
+}
+
+// Function to unwrap all WSOL back into native ETH by closing the WSOL account
+export async function unwrapSol(
+  owner: Signer = getDefaultSigner(),
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<{ signature: string; lamports: BN }> {
+  const associatedTokenAccount = getAssociatedTokenAddressSync(
+    NATIVE_MINT,
+    owner.publicKey
+  );
+
+  // The account's lamports include the wrapped amount and its rent
+  // A dry run may unwrap an account created on paper only
+  const accountInfo = await connection.getAccountInfo(associatedTokenAccount);
+  if (
+    !accountInfo &&
+    !(isDryRun() && hasPaperBalance(owner.publicKey, NATIVE_MINT))
+  ) {
+    throw new Error(
+      `No WSOL account to unwrap: ${associatedTokenAccount.toBase58()}`
+    );
+  }
+
+  console.log(`Unwrapping WSOL account ${associatedTokenAccount.toBase58()}...`);
+  const transaction = new Transaction().add(
+    buildUnwrapInstruction(owner.publicKey)
+  );
+  const entry = {
+    type: "unwrap" as const,
+    wallet: owner.publicKey.toBase58(),
+    lamports: (accountInfo?.lamports ?? 0).toString(),
+  };
+  let signature: string;
+  let changes: PaperChange[] | undefined;
+  try {
+    ({ signature, changes } = await sendOrSimulate(
+      transaction,
+      owner,
+      computeBudget,
+      [NATIVE_MINT]
+    ));
+  } catch (error) {
+    recordJournalEntry({
+      ...entry,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  // A dry run unwraps the paper balance, see simulateOnPaper
+  const lamports =
+    changes?.find(({ mint }) => mint === null)?.delta ??
+    new BN(accountInfo?.lamports ?? 0);
+  recordJournalEntry({
+    ...entry,
+    lamports: lamports.toString(),
+    status: settledStatus(),
+    signature,
+  });
+  console.log(`WSOL unwrapped successfully! Transaction: ${signature}`);
+
+  return { signature, lamports };
+}
+
+export interface ExecuteQuoteOptions {
+  slippageBps?: number;
+  minAmountOut?: BN;
+  // Wallet that pays and signs, the .env wallet by default
+  owner?: Signer;
+  // Spend or receive native ETH: wrap before and unwrap after the swap in one transaction
+  nativeEth?: boolean;
+  // Priority fee and compute unit limit, PRIORITY_FEE and COMPUTE_UNIT_LIMIT by default
+  computeBudget?: ComputeBudgetOptions;
+}
+
+// Throw unless the owner can cover the most a quote's swap may spend. Native
+// input is wrapped inside the swap transaction, so lamports are checked instead.
+export async function assertCanFillQuote(
+  quote: PoolQuote,
+  owner: PublicKey,
+  nativeEth: boolean = false
+): Promise<void> {
+  const nativeIn = nativeEth && quote.tokenIn.equals(NATIVE_MINT);
+  const balance = nativeIn
+    ? (await getNativeBalance(owner)).subn(5000) // Reserve 5000 lamports for transaction fees
+    : await getTokenBalance(quote.tokenIn, owner);
+  if (balance.lt(quote.maxAmountIn)) {
+    throw new Error(
+      `Insufficient balance. Need up to ${quote.maxAmountIn.toString()} of ${quote.tokenIn.toBase58()}, but only have ${balance.toString()}`
+    );
+  }
+}
+
+/**
+ * Builds the unsigned transaction for a quote's swap. With nativeEth, native
+ * ETH is wrapped before and unwrapped after the swap in the same transaction.
+ */
+export async function buildQuoteTransaction(
+  market: Market,
+  quote: PoolQuote,
+  owner: PublicKey,
+  options: Pick<ExecuteQuoteOptions, "slippageBps" | "nativeEth"> = {}
+): Promise<Transaction> {
+  const { slippageBps = DEFAULT_SLIPPAGE_BPS } = options;
+  const nativeIn =
+    options.nativeEth === true && quote.tokenIn.equals(NATIVE_MINT);
+  const nativeOut =
+    options.nativeEth === true && quote.tokenOut.equals(NATIVE_MINT);
+
+  const { pool } = quote.pool;
+
+  // Create pair using the actual pool's fee structure
+  const feeTier = {
+    fee: pool.fee,
+    tickSpacing: pool.tickSpacing || 1,
+  };
+  const pair = new Pair(pool.tokenX, pool.tokenY, feeTier);
+
+  // Get associated token accounts
+  const accountX = getAssociatedTokenAddressSync(
+    pair.tokenX,
+    owner,
+    true,
+    await getTokenProgram(connection, pair.tokenX)
+  );
+
+  const accountY = getAssociatedTokenAddressSync(
+    pair.tokenY,
+    owner,
+    true,
+    await getTokenProgram(connection, pair.tokenY)
+  );
+
+  const swapTransaction = await market.swapTx({
+    xToY: quote.xToY,
+    estimatedPriceAfterSwap: quote.priceAfterSwap,
+    pair,
+    amount: quote.swapAmount,
+    slippage: slippageToDecimal(slippageBps),
+    byAmountIn: quote.mode === "exactIn",
+    accountX,
+    accountY,
+    owner,
+  });
+
+  if (!nativeIn && !nativeOut) {
+    return swapTransaction;
+  }
+
+  // Wrap, swap and unwrap atomically. Closing the WSOL account also unwraps
+  // any leftover input and WSOL the wallet already held.
+  const transaction = new Transaction();
+  if (nativeIn) {
+    transaction.add(...buildWrapInstructions(owner, quote.maxAmountIn));
+  } else {
+    transaction.add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        getAssociatedTokenAddressSync(NATIVE_MINT, owner),
+        owner,
+        NATIVE_MINT
+      )
+    );
+  }
+  transaction.add(swapTransaction);
+  transaction.add(buildUnwrapInstruction(owner));
+
+  return transaction;
+}
+
+export interface QuoteExecution {
+  signature: string;
+  // What the swap actually did, missing if the transaction couldn't be read back
+  reconciliation?: Reconciliation;
+  // Dry run whose amounts are the quote's, the simulation couldn't run
+  estimated?: boolean;
+}
+
+// Execute a swap on the pool of a quote, using the quote's simulated price.
+// Rejects the swap before sending when the quoted output is below minAmountOut
+// or the wallet can't cover the most the swap may spend. Once confirmed, the
+// amounts actually swapped are read back from the transaction. In dry-run mode
+// the swap is simulated and its amounts applied to the paper balances.
+export async function executeQuote(
+  market: Market,
+  quote: PoolQuote,
+  options: ExecuteQuoteOptions = {}
+): Promise<QuoteExecution> {
+  const {
+    minAmountOut,
+    owner = getDefaultSigner(),
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+  } = options;
+  const entry = {
+    type: "swap" as const,
+    wallet: owner.publicKey.toBase58(),
+    pool: quote.pool.address.toBase58(),
+    inputMint: quote.tokenIn.toBase58(),
+    outputMint: quote.tokenOut.toBase58(),
+    mode: quote.mode,
+    amountIn: quote.amountIn.toString(),
+    amountOut: quote.amountOut.toString(),
+    fee: quote.fee.toString(),
+    slippageBps,
+  };
+
+  const nativeIn =
+    options.nativeEth === true && quote.tokenIn.equals(NATIVE_MINT);
+  const nativeOut =
+    options.nativeEth === true && quote.tokenOut.equals(NATIVE_MINT);
+
+  let signature: string;
+  let simulation: Partial<PaperFill>;
+  try {
+    assertMinAmountOut(quote.amountOut, minAmountOut);
+    await assertCanFillQuote(quote, owner.publicKey, options.nativeEth);
+
+    const transaction = await buildQuoteTransaction(
+      market,
+      quote,
+      owner.publicKey,
+      options
+    );
+    ({ signature, ...simulation } = await sendOrSimulate(
+      transaction,
+      owner,
+      options.computeBudget,
+      [quote.tokenIn, quote.tokenOut],
+      [
+        { mint: nativeIn ? null : quote.tokenIn, delta: quote.amountIn.neg() },
+        { mint: nativeOut ? null : quote.tokenOut, delta: quote.amountOut },
+      ]
+    ));
+  } catch (error) {
+    recordJournalEntry({
+      ...entry,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      failure:
+        error instanceof TransactionFailedError
+          ? error.outcome.kind
+          : undefined,
+      signature:
+        error instanceof TransactionFailedError
+          ? error.outcome.signature
+          : undefined,
+    });
+    throw error;
+  }
+
+  // The swap went through, failing to read it back only loses the details
+  let reconciliation: Reconciliation | undefined;
+  const reconcileParams = {
+    owner: owner.publicKey,
+    inputMint: quote.tokenIn,
+    outputMint: quote.tokenOut,
+    quotedAmountIn: quote.amountIn,
+    quotedAmountOut: quote.amountOut,
+    nativeEth: options.nativeEth,
+  };
+  try {
+    // A dry run has nothing on chain to read back, its paper changes are the swap
+    const { changes } = simulation;
+    const changeOf = (mint: PublicKey | null) =>
+      changes?.find((change) =>
+        mint === null ? change.mint === null : change.mint?.equals(mint)
+      )?.delta ?? new BN(0);
+    reconciliation = changes
+      ? await reconcileAmounts(connection, {
+          ...reconcileParams,
+          signature,
+          slot: simulation.slot ?? 0,
+          amountIn: changeOf(nativeIn ? null : quote.tokenIn).neg(),
+          amountOut: changeOf(nativeOut ? null : quote.tokenOut),
+          networkFee: 0,
+        })
+      : await reconcileSwap(connection, signature, reconcileParams);
+    console.log(
+      `Swapped ${reconciliation.amountIn.toString()} for ${reconciliation.amountOut.toString()}, ${
+        reconciliation.realizedSlippageBps
+      } bps from the quote`
+    );
+  } catch (error) {
+    console.error(`Failed to reconcile swap ${signature}:`, error);
+  }
+
+  recordJournalEntry({
+    ...entry,
+    status: settledStatus(),
+    signature,
+    actualAmountIn: reconciliation?.amountIn.toString(),
+    actualAmountOut: reconciliation?.amountOut.toString(),
+    realizedSlippageBps: reconciliation?.realizedSlippageBps,
+    estimated: simulation.estimated || undefined,
+  });
+  return { signature, reconciliation, estimated: simulation.estimated };
+}
+
+export interface SwapParams {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  // Input to spend for exactIn, output to buy for exactOut, in base units
+  amount: BN;
+  mode?: SwapMode;
+  slippageBps?: number;
+  minAmountOut?: BN;
+  // Wallet that pays and signs, the .env wallet by default
+  owner?: Signer;
+  // Spend or receive native ETH instead of WSOL
+  nativeEth?: boolean;
+  computeBudget?: ComputeBudgetOptions;
+  // Skip pools whose quoted price impact is above this, in bps
+  maxPriceImpactBps?: number;
+  market?: Market;
+}
+
+// A pool that was tried and failed during a swap
+export interface SwapAttempt {
+  pool: PublicKey;
+  error: string;
+  // Why the transaction failed, when it was sent
+  failure?: SendFailureKind;
+}
+
+// Thrown when every pool was tried and none of the attempts landed
+export class SwapAttemptsFailedError extends Error {
+  readonly attempts: SwapAttempt[];
+
+  constructor(attempts: SwapAttempt[]) {
+    super(
+      `All swap attempts failed: ${attempts
+        .map(({ pool, error }) => `${pool.toBase58()}: ${error}`)
+        .join("; ")}`
+    );
+    this.name = "SwapAttemptsFailedError";
+    this.attempts = attempts;
+  }
+}
+
+export interface SwapResult {
+  signature: string;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  mode: SwapMode;
+  pool: PublicKey;
+  fee: BN;
+  xToY: boolean;
+  amountIn: BN;
+  maxAmountIn: BN;
+  amountOut: BN;
+  minReceived: BN;
+  priceImpact: BN;
+  priceAfterSwap: BN;
+  slippageBps: number;
+  quotesConsidered: number;
+  failedAttempts: SwapAttempt[];
+  // Amounts and price read back from the confirmed transaction
+  reconciliation?: Reconciliation;
+  // Dry run whose amounts are the quote's, the simulation couldn't run
+  estimated?: boolean;
+}
+
+// Execute the best of a ranked quote list, falling back to the next pool when
+// a failed attempt provably never landed, so a pool is never swapped on twice
+async function executeBestQuote(
+  market: Market,
+  quotes: PoolQuote[],
+  slippageBps: number,
+  options: ExecuteQuoteOptions = {}
+): Promise<SwapResult> {
+  const { minAmountOut, owner = getDefaultSigner() } = options;
+  const okQuotes = quotes.filter(isQuoteOk);
+  if (okQuotes.length === 0) {
+    throw new Error(
+      quotes.length === 0
+        ? "No pools found for this token pair"
+        : `No pool could simulate this swap: ${quotes
+            .map((quote) => quote.status)
+            .join(", ")}`
+    );
+  }
+
+  // Quotes are ranked, so if the best one is too low every other one is too
+  assertMinAmountOut(okQuotes[0].amountOut, minAmountOut);
+
+  // Make sure we can receive every output token
+  const outputMints = new Set(okQuotes.map((quote) => quote.tokenOut.toBase58()));
+  for (const mint of outputMints) {
+    await createAssociatedTokenAccount(
+      new PublicKey(mint),
+      owner,
+      options.computeBudget
+    );
+  }
+
+  const failedAttempts: SwapAttempt[] = [];
+  for (const quote of okQuotes) {
+    try {
+      const { signature, reconciliation, estimated } = await executeQuote(market, quote, {
+        ...options,
+        slippageBps,
+      });
+
+      return {
+        signature,
+        inputMint: quote.tokenIn,
+        outputMint: quote.tokenOut,
+        mode: quote.mode,
+        pool: quote.pool.address,
+        fee: quote.pool.pool.fee,
+        xToY: quote.xToY,
+        amountIn: quote.amountIn,
+        maxAmountIn: quote.maxAmountIn,
+        amountOut: quote.amountOut,
+        minReceived: quote.minReceived,
+        priceImpact: quote.priceImpact,
+        priceAfterSwap: quote.priceAfterSwap,
+        slippageBps,
+        quotesConsidered: quotes.length,
+        failedAttempts,
+        reconciliation,
+        estimated,
+      };
+    } catch (error) {
+      // No other pool can make up for a wallet that can't pay
+      if (
+        error instanceof TransactionFailedError &&
+        error.outcome.kind === "insufficientFunds"
+      ) {
+        throw error;
+      }
+      // A swap that may have landed, e.g. when confirming it threw, must not
+      // be repeated on another pool
+      if (!provesNotLanded(error)) {
+        throw error;
+      }
+      // A failed preflight or an expired blockhash may not happen on the next pool
+      failedAttempts.push({
+        pool: quote.pool.address,
+        error: error instanceof Error ? error.message : String(error),
+        failure:
+          error instanceof TransactionFailedError
+            ? error.outcome.kind
+            : undefined,
+      });
+    }
+  }
+
+  throw new SwapAttemptsFailedError(failedAttempts);
+}
+
+/**
+ * Swaps between any two tokens with a direct Invariant pool, in either
+ * direction. Every pool for the pair is quoted and the best one executed.
+ * @throws if no pool can fill the swap within maxPriceImpactBps or the output
+ * is below minAmountOut
+ */
+export async function swap(params: SwapParams): Promise<SwapResult> {
+  const {
+    inputMint,
+    outputMint,
+    amount,
+    mode = "exactIn",
+    minAmountOut,
+    owner = getDefaultSigner(),
+    nativeEth = false,
+    computeBudget,
+    maxPriceImpactBps,
+  } = params;
+  const slippageBps = resolveSlippageBps(params.slippageBps);
+
+  if (inputMint.equals(outputMint)) {
+    throw new Error("Cannot swap a token for itself");
+  }
+  if (amount.lten(0)) {
+    throw new Error("Swap amount must be greater than 0");
+  }
+
+  const market = params.market ?? (await getMarket());
+  let quotes = await getQuotes(
+    market,
+    inputMint,
+    [outputMint],
+    amount,
+    slippageBps,
+    mode
+  );
+
+  if (maxPriceImpactBps !== undefined) {
+    // Price impact is a Decimal with 12 decimals, like the slippage
+    const maxPriceImpact = slippageToDecimal(maxPriceImpactBps);
+    const withinImpact = quotes.filter(
+      (quote) => !isQuoteOk(quote) || quote.priceImpact.lte(maxPriceImpact)
+    );
+    if (quotes.some(isQuoteOk) && !withinImpact.some(isQuoteOk)) {
+      throw new Error(
+        `Every pool's price impact is above ${maxPriceImpactBps} bps`
+      );
+    }
+    quotes = withinImpact;
+  }
+
+  return executeBestQuote(market, quotes, slippageBps, {
+    minAmountOut,
+    owner,
+    nativeEth,
+    computeBudget,
+  });
+}
+
+export interface SmartSwapOptions {
+  slippageBps?: number;
+  minAmountOut?: BN;
+  // Buy exactly this much USDT/USDC and spend whatever ETH that takes
+  exactAmountOut?: BN;
+  // How much of the WSOL balance to swap, SWAP_SIZING by default
+  sizing?: SizingOptions;
+}
+
 // main swap
-export async function smartSwapEthToUsdt(market: Market): Promise<void> {
+export async function smartSwapEthToUsdt(
+  market: Market,
+  options: SmartSwapOptions = {}
+): Promise<SwapResult | null> {
   console.log("\n=== SWAP: ETH TO USDT/USDC ===");
+  const slippageBps = resolveSlippageBps(options.slippageBps);
+  const { minAmountOut, exactAmountOut } = options;
+  const mode: SwapMode = exactAmountOut ? "exactOut" : "exactIn";
+  const sizing = options.sizing ?? parseSizingOptions(DEFAULT_SWAP_SIZING);
 
-  // Get 40% of available wrapped SOL balance
+  // Size the swap from the available wrapped SOL balance
   const wrappedSolBalance = await getAvailableWrappedSolBalance();
-  const swapAmount = wrappedSolBalance.muln(40).divn(100); // 40% of balance
+  const swapAmount =
+    exactAmountOut ??
+    (await sizeTrade(market, ETH_MINT, wrappedSolBalance, sizing));
 
   if (swapAmount.eqn(0)) {
     console.log("No wrapped SOL available for swap");
-    return;
+    return null;
   }
 
   console.log(
     `Available wrapped SOL: ${wrappedSolBalance.toString()} lamports`
   );
-  console.log(`Swap amount (40%): ${swapAmount.toString()} lamports`);
+  if (exactAmountOut) {
+    console.log(`Exact output amount: ${swapAmount.toString()}`);
+  } else {
+    console.log(
+      `Swap amount (${formatSizingStrategy(
+        sizing.strategy
+      )}): ${swapAmount.toString()} lamports`
+    );
+  }
 
-  // Try different token pairs
-  const tokenPairs = [
-    { tokenA: ETH_MINT, tokenB: USDT_MINT, name: "ETH/USDT" },
-    { tokenA: ETH_MINT, tokenB: USDC_MINT, name: "ETH/USDC" },
-  ];
+  // Quote every ETH/USDT and ETH/USDC pool and try them best first
+  console.log(`Slippage tolerance: ${slippageBps} bps`);
+  const quotes = await getQuotes(
+    market,
+    ETH_MINT,
+    [requireRegisteredMint("USDT"), requireRegisteredMint("USDC")],
+    swapAmount,
+    slippageBps,
+    mode
+  );
 
-  for (const { tokenA, tokenB, name } of tokenPairs) {
-    console.log(`\n--- Trying ${name} ---`);
+  console.log(`Quoted ${quotes.length} pools`);
+  quotes.forEach((quote, i) => {
+    console.log(
+      `  ${i + 1}. ${quote.pool.address.toString()} -> ${quote.tokenOut.toString()}: ${
+        isQuoteOk(quote) ? quote.amountOut.toString() : quote.status
+      }`
+    );
+  });
 
-    try {
-      // Get all pools for this token pair with their actual addresses
-      const poolsWithAddresses = await getPoolsForTokenPair(
-        market,
-        tokenA,
-        tokenB
+  try {
+    console.log("Executing swap...");
+    const result = await executeBestQuote(market, quotes, slippageBps, {
+      minAmountOut,
+    });
+
+    console.log("Swap completed successfully!");
+    console.log(`  Pool: ${result.pool.toString()}`);
+    console.log(`  Expected output: ${result.amountOut.toString()}`);
+    console.log(
+      `  Expected input: ${result.amountIn.toString()} (max ${result.maxAmountIn.toString()})`
+    );
+    if (result.reconciliation) {
+      const { reconciliation } = result;
+      console.log(`  Actual output: ${reconciliation.amountOut.toString()}`);
+      console.log(`  Actual input: ${reconciliation.amountIn.toString()}`);
+      console.log(
+        `  Price: ${reconciliation.price} (quoted ${reconciliation.quotedPrice}, ${reconciliation.realizedSlippageBps} bps slippage)`
       );
-
-      if (poolsWithAddresses.length === 0) {
-        console.log(`No pools found for ${name}`);
-        continue;
-      }
-
-      console.log(`Found ${poolsWithAddresses.length} pools for ${name}`);
-
-      // Try each pool
-      for (let i = 0; i < poolsWithAddresses.length; i++) {
-        const { pool, address } = poolsWithAddresses[i];
-        console.log(`\n  --- Pool ${i + 1}/${poolsWithAddresses.length} ---`);
-        console.log(
-          `  Pool tokens: ${pool.tokenX.toString()} ↔ ${pool.tokenY.toString()}`
-        );
-        console.log(
-          `  Pool fee: ${pool.fee?.toString()} (${
-            (pool.fee?.toNumber() || 0) / 10000000
-          }%)`
-        );
-        console.log(`  Pool address: ${address.toString()}`);
-
-        try {
-          // Create pair using the actual pool's fee structure
-          const feeTier = {
-            fee: pool.fee,
-            tickSpacing: pool.tickSpacing || 1,
-          };
-          const pair = new Pair(pool.tokenX, pool.tokenY, feeTier);
-
-          // Determine swap direction
-          const xToY = pair.tokenX.equals(ETH_MINT);
-          console.log(`  Swap direction - X to Y: ${xToY}`);
-
-          // Get associated token accounts
-          const accountX = getAssociatedTokenAddressSync(
-            pair.tokenX,
-            keypair.publicKey,
-            true,
-            pair.tokenX.equals(USDT_MINT) || pair.tokenX.equals(USDC_MINT)
-              ? TOKEN_2022_PROGRAM_ID
-              : TOKEN_PROGRAM_ID
-          );
-
-          const accountY = getAssociatedTokenAddressSync(
-            pair.tokenY,
-            keypair.publicKey,
-            true,
-            pair.tokenY.equals(USDT_MINT) || pair.tokenY.equals(USDC_MINT)
-              ? TOKEN_2022_PROGRAM_ID
-              : TOKEN_PROGRAM_ID
-          );
-
-          // Perform simulation first using the actual pool address
-          console.log(" Simulating swap...");
-          const slippage = toDecimal(0, 0); // 0% slippage
-
-          const simulation = await swapSimulation(
-            xToY,
-            true, // byAmountIn
-            swapAmount,
-            undefined,
-            slippage,
-            market,
-            address, // Use the actual pool address
-            TICK_CROSSES_PER_IX_NATIVE_TOKEN
-          );
-
-          if (simulation.status !== SimulationStatus.Ok) {
-            console.log(`Simulation failed: ${simulation.status}`);
-            continue;
-          }
-
-          console.log("Simulation successful!");
-          console.log(
-            `  Estimated price after swap: ${simulation.priceAfterSwap}`
-          );
-
-          // Execute the swap
-          console.log("Executing swap...");
-          const txHash = await market.swap(
-            {
-              xToY,
-              estimatedPriceAfterSwap: simulation.priceAfterSwap,
-              pair,
-              amount: swapAmount,
-              slippage,
-              byAmountIn: true,
-              accountX,
-              accountY,
-              owner: keypair.publicKey,
-            },
-            keypair as any
-          );
-
-          console.log("Swap completed successfully!");
-          console.log(`Transaction hash: ${txHash}`);
-          return; // Exit after successful swap
-        } catch (error) {
-          console.log(`Error with pool ${i + 1}:`, error);
-          if (error instanceof Error) {
-            console.log(`  Error message: ${error.message}`);
-          }
-          continue;
-        }
-      }
-    } catch (error) {
-      console.log(`Error processing ${name}:`, error);
-      continue;
     }
+    console.log(`Transaction hash: ${result.signature}`);
+    return result;
+  } catch (error) {
+    console.log("Swap failed:", error instanceof Error ? error.message : error);
+    return null;
   }
-
-  console.log("All swap attempts failed - no suitable pools found");
 }
 
 async function main() {
   console.log("Starting Invariant swap...");
 
   try {
+    // --dry-run simulates every transaction against paper balances, like DRY_RUN=true
+    if (process.argv.includes("--dry-run")) {
+      setDryRun(true);
+    }
+    if (isDryRun()) {
+      console.log("Dry run: transactions are simulated, nothing is sent");
+    }
+
+    const USDT_MINT = requireRegisteredMint("USDT");
+    const USDC_MINT = requireRegisteredMint("USDC");
+
+    // Trade sizes: --wrap-size, --swap-size and --max-notional-usd override .env
+    const maxNotionalOption = getCliOption("max-notional-usd");
+    const maxNotionalUsd =
+      maxNotionalOption === undefined
+        ? MAX_NOTIONAL_USD
+        : Number(maxNotionalOption);
+    const wrapSizing = parseSizingOptions(
+      getCliOption("wrap-size") ?? DEFAULT_WRAP_SIZING,
+      maxNotionalUsd
+    );
+    const swapSizing = parseSizingOptions(
+      getCliOption("swap-size") ?? DEFAULT_SWAP_SIZING,
+      maxNotionalUsd
+    );
+
     // Check the wallet balance
     await checkBalance();
 
@@ -473,9 +1191,15 @@ async function main() {
     // Wrap some SOL into WSOL (be conservative with the amount)
     try {
       console.log("\n--- Wrapping SOL ---");
-      // wrap 10% of the wallet balance into WSOL
-      const walletBalance = await connection.getBalance(keypair.publicKey);
-      const wrapAmount = (walletBalance * 0.1) / LAMPORTS_PER_SOL; // Convert to SOL units
+      console.log(`Wrap sizing: ${formatSizingStrategy(wrapSizing.strategy)}`);
+      const walletBalance = await getNativeBalance();
+      const wrapLamports = await sizeTrade(
+        await getMarket(),
+        ETH_MINT,
+        walletBalance,
+        wrapSizing
+      );
+      const wrapAmount = wrapLamports.toNumber() / LAMPORTS_PER_SOL; // Convert to SOL units
       await wrapSol(wrapAmount);
 
       // Check token balances after wrapping
@@ -487,7 +1211,7 @@ async function main() {
 
     // Initialize the Invariant market
     console.log("\n--- Initializing Invariant Market ---");
-    const market = await initializeInvariantMarket();
+    const market = await getMarket();
 
     // Run quick diagnostics to show available pools
     console.log("\n=== QUICK DIAGNOSTICS ===");
@@ -513,7 +1237,7 @@ async function main() {
     console.log(`USDC pools available: ${usdcPools.length}`);
 
     // Try the enhanced smart swap
-    await smartSwapEthToUsdt(market);
+    await smartSwapEthToUsdt(market, { sizing: swapSizing });
 
     // Check final balances after swap
     console.log("\n--- Final Token Balances ---");
@@ -525,6 +1249,9 @@ async function main() {
   }
 }
 
-main()
-  .then(() => console.log("Script completed successfully"))
-  .catch((error) => console.error("Error in script:", error));
+// Only run the script when executed directly, not when imported by the server
+if (require.main === module) {
+  main()
+    .then(() => console.log("Script completed successfully"))
+    .catch((error) => console.error("Error in script:", error));
+}
@@ -0,0 +1,5 @@
+// Value of a "--name value" command line option
+export function getCliOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
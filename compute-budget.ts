@@ -0,0 +1,248 @@
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetInstructionType,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+import {
+  COMPUTE_UNIT_LIMIT,
+  COMPUTE_UNIT_MARGIN_BPS,
+  MAX_PRIORITY_FEE_MICRO_LAMPORTS,
+  PRIORITY_FEE,
+} from "./config";
+import {
+  classifyTransactionError,
+  TransactionFailedError,
+} from "./transaction-sender";
+
+// Most compute units a transaction may use
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+export type PriorityFee =
+  | { kind: "none" }
+  // A fixed price in micro-lamports per compute unit
+  | { kind: "fixed"; microLamports: number }
+  // A percentile of the fees recently paid for the transaction's writable accounts
+  | { kind: "auto"; percentile: number };
+
+// "simulate" sizes the limit from a simulation, "none" leaves it to the program
+export type ComputeUnitLimit = number | "simulate" | "none";
+
+export interface ComputeBudgetOptions {
+  priorityFee?: PriorityFee;
+  unitLimit?: ComputeUnitLimit;
+}
+
+/**
+ * Parses a priority fee written as "none", "fixed:<microLamports>" or
+ * "auto:<percentile>"
+ */
+export function parsePriorityFee(value: string): PriorityFee {
+  const [kind, argument = ""] = value.trim().split(":");
+  const number = Number(argument);
+
+  switch (kind) {
+    case "none":
+      return { kind: "none" };
+    case "fixed":
+      if (argument === "" || !Number.isInteger(number) || number < 0) {
+        throw new Error(
+          "fixed priority fee needs a whole number of micro-lamports"
+        );
+      }
+      return { kind: "fixed", microLamports: number };
+    case "auto":
+      if (argument === "") {
+        return { kind: "auto", percentile: 50 };
+      }
+      if (!(number >= 0 && number <= 100)) {
+        throw new Error("auto priority fee needs a percentile from 0 to 100");
+      }
+      return { kind: "auto", percentile: number };
+    default:
+      throw new Error(
+        `Unknown priority fee "${value}", expected none, fixed:<microLamports> or auto:<percentile>`
+      );
+  }
+}
+
+// Parses a compute unit limit written as "simulate", "none" or a number of units
+export function parseComputeUnitLimit(
+  value: string | number
+): ComputeUnitLimit {
+  if (value === "simulate" || value === "none") {
+    return value;
+  }
+  const units = Number(value);
+  if (!Number.isInteger(units) || units <= 0 || units > MAX_COMPUTE_UNITS) {
+    throw new Error(
+      `Compute unit limit must be simulate, none or a number of units up to ${MAX_COMPUTE_UNITS}`
+    );
+  }
+  return units;
+}
+
+// Compute budget from PRIORITY_FEE and COMPUTE_UNIT_LIMIT, with per-call overrides
+export function resolveComputeBudget(
+  options: ComputeBudgetOptions = {}
+): Required<ComputeBudgetOptions> {
+  return {
+    priorityFee: options.priorityFee ?? parsePriorityFee(PRIORITY_FEE),
+    unitLimit:
+      options.unitLimit ?? parseComputeUnitLimit(COMPUTE_UNIT_LIMIT),
+  };
+}
+
+/**
+ * Priority fee at a percentile of the fees recently paid to land transactions
+ * writing to the given accounts, capped at MAX_PRIORITY_FEE_MICRO_LAMPORTS
+ */
+export async function getRecentPriorityFee(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  percentile: number
+): Promise<number> {
+  const fees = (
+    await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    })
+  )
+    .map(({ prioritizationFee }) => prioritizationFee)
+    .sort((a, b) => a - b);
+  if (fees.length === 0) {
+    return 0;
+  }
+
+  const index = Math.min(
+    fees.length - 1,
+    Math.floor((percentile / 100) * fees.length)
+  );
+  return Math.min(fees[index], MAX_PRIORITY_FEE_MICRO_LAMPORTS);
+}
+
+// Whether an instruction is a compute budget instruction of the given type
+function isBudgetInstruction(
+  instruction: TransactionInstruction,
+  type: ComputeBudgetInstructionType
+): boolean {
+  return (
+    instruction.programId.equals(ComputeBudgetProgram.programId) &&
+    ComputeBudgetInstruction.decodeInstructionType(instruction) === type
+  );
+}
+
+// Writable accounts of a transaction, the ones priority fees compete for
+function getWritableAccounts(transaction: Transaction): PublicKey[] {
+  const accounts = new Map<string, PublicKey>();
+  for (const instruction of transaction.instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  return Array.from(accounts.values());
+}
+
+/**
+ * Compute units a transaction uses, from a simulation run without signatures
+ * @throws TransactionFailedError if the simulation fails, since sending the
+ * transaction would too
+ */
+export async function simulateComputeUnits(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey
+): Promise<number> {
+  const { blockhash } = await connection.getLatestBlockhash("confirmed");
+  const transaction = new Transaction({
+    feePayer: payer,
+    recentBlockhash: blockhash,
+  })
+    // Simulate with the highest limit so the program isn't cut short
+    .add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS })
+    )
+    .add(...instructions);
+
+  const { value } = await connection.simulateTransaction(
+    new VersionedTransaction(transaction.compileMessage()),
+    { sigVerify: false, replaceRecentBlockhash: true }
+  );
+  if (value.err) {
+    throw new TransactionFailedError({
+      status: "failed",
+      broadcasts: 0,
+      resigns: 0,
+      ...classifyTransactionError(
+        value.err,
+        transaction.instructions,
+        value.logs ?? undefined
+      ),
+    });
+  }
+  if (value.unitsConsumed === undefined) {
+    throw new Error("Simulation didn't report compute units");
+  }
+  return value.unitsConsumed;
+}
+
+/**
+ * Replaces a transaction's compute budget instructions with the configured
+ * unit limit and priority fee. Call before setting the blockhash and signing.
+ */
+export async function applyComputeBudget(
+  connection: Connection,
+  transaction: Transaction,
+  payer: PublicKey,
+  options: ComputeBudgetOptions = {}
+): Promise<Transaction> {
+  const { priorityFee, unitLimit } = resolveComputeBudget(options);
+  let instructions = transaction.instructions;
+  const budget: TransactionInstruction[] = [];
+
+  // Our limit replaces any the SDK added, "none" keeps it
+  if (unitLimit !== "none") {
+    instructions = instructions.filter(
+      (instruction) => !isBudgetInstruction(instruction, "SetComputeUnitLimit")
+    );
+    let units = unitLimit;
+    if (units === "simulate") {
+      const consumed = await simulateComputeUnits(
+        connection,
+        instructions,
+        payer
+      );
+      units = Math.min(
+        MAX_COMPUTE_UNITS,
+        Math.ceil((consumed * (10000 + COMPUTE_UNIT_MARGIN_BPS)) / 10000)
+      );
+    }
+    budget.push(ComputeBudgetProgram.setComputeUnitLimit({ units }));
+  }
+
+  let microLamports = 0;
+  if (priorityFee.kind === "fixed") {
+    microLamports = priorityFee.microLamports;
+  } else if (priorityFee.kind === "auto") {
+    microLamports = await getRecentPriorityFee(
+      connection,
+      getWritableAccounts(transaction),
+      priorityFee.percentile
+    );
+  }
+  if (microLamports > 0) {
+    instructions = instructions.filter(
+      (instruction) => !isBudgetInstruction(instruction, "SetComputeUnitPrice")
+    );
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+
+  transaction.instructions = [...budget, ...instructions];
+  return transaction;
+}
@@ -0,0 +1,147 @@
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config();
+
+// Read a numeric setting from the environment, falling back to a default
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Slippage tolerance used when a call or request doesn't specify one (0.5%)
+export const DEFAULT_SLIPPAGE_BPS = readNumber("DEFAULT_SLIPPAGE_BPS", 50);
+
+// Highest slippage tolerance accepted from callers (50%)
+export const MAX_SLIPPAGE_BPS = readNumber("MAX_SLIPPAGE_BPS", 5000);
+
+// Share of the WSOL balance swapped by the CLI, see sizing.ts for the format
+export const DEFAULT_SWAP_SIZING = process.env.SWAP_SIZING || "percent:40";
+
+// Share of the native ETH balance wrapped by the CLI
+export const DEFAULT_WRAP_SIZING = process.env.WRAP_SIZING || "percent:10";
+
+// Largest trade value in USD, no cap when unset
+export const MAX_NOTIONAL_USD: number | undefined = process.env.MAX_NOTIONAL_USD
+  ? readNumber("MAX_NOTIONAL_USD", 0)
+  : undefined;
+
+// Where the default wallet comes from: "env", "file" or "keystore"
+export const SIGNER_BACKEND = process.env.SIGNER_BACKEND || "env";
+
+// Plaintext keypair file for the "file" signer backend
+export const WALLET_KEYPAIR_PATH =
+  process.env.WALLET_KEYPAIR_PATH ||
+  path.join(__dirname, "keys", "keypair.json");
+
+// Encrypted keystore for the "keystore" signer backend
+export const WALLET_KEYSTORE_PATH =
+  process.env.WALLET_KEYSTORE_PATH ||
+  path.join(__dirname, "keys", "keystore.json");
+
+// Directory of named wallets for batch operations, one key file per wallet
+export const WALLETS_DIR =
+  process.env.WALLETS_DIR || path.join(__dirname, "keys", "wallets");
+
+// Network to trade on: mainnet, testnet, devnet or localnet
+export const NETWORK = process.env.ECLIPSE_NETWORK || "mainnet";
+
+// RPC endpoints in order of preference, comma separated. Defaults to the
+// network's public RPC.
+export const RPC_URLS = (process.env.RPC_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter((url) => url !== "");
+
+// How long an RPC request may take before moving to the next endpoint
+export const RPC_TIMEOUT_MS = readNumber("RPC_TIMEOUT_MS", 10000);
+
+// How many slots an endpoint may lag behind the others before it counts as stale
+export const RPC_MAX_SLOT_LAG = readNumber("RPC_MAX_SLOT_LAG", 150);
+
+// Priority fee for sent transactions: "none", "fixed:<microLamports>" or
+// "auto:<percentile>" of recent fees, see compute-budget.ts
+export const PRIORITY_FEE = process.env.PRIORITY_FEE || "none";
+
+// Highest automatic priority fee, in micro-lamports per compute unit
+export const MAX_PRIORITY_FEE_MICRO_LAMPORTS = readNumber(
+  "MAX_PRIORITY_FEE_MICRO_LAMPORTS",
+  1_000_000
+);
+
+// Compute unit limit: "simulate" to size it from a simulation, "none" to
+// leave it alone, or a fixed number of units
+export const COMPUTE_UNIT_LIMIT = process.env.COMPUTE_UNIT_LIMIT || "simulate";
+
+// Headroom added to the simulated compute units (10%)
+export const COMPUTE_UNIT_MARGIN_BPS = readNumber(
+  "COMPUTE_UNIT_MARGIN_BPS",
+  1000
+);
+
+// How often a sent transaction is broadcast again until it lands or expires
+export const SEND_REBROADCAST_INTERVAL_MS = readNumber(
+  "SEND_REBROADCAST_INTERVAL_MS",
+  2000
+);
+
+// How many times an expired transaction is signed again with a fresh blockhash
+export const SEND_MAX_RESIGNS = readNumber("SEND_MAX_RESIGNS", 2);
+
+// Journal of quotes, swaps, wraps and token accounts, one JSON entry per line
+export const JOURNAL_PATH =
+  process.env.JOURNAL_PATH || path.join(__dirname, "data", "journal.jsonl");
+
+// Pending limit, take-profit and stop-loss orders
+export const ORDERS_PATH =
+  process.env.ORDERS_PATH || path.join(__dirname, "data", "orders.json");
+
+// How often pending orders are checked against pool prices
+export const ORDER_POLL_INTERVAL_MS = readNumber(
+  "ORDER_POLL_INTERVAL_MS",
+  15000
+);
+
+// Swaps tried for a fired order before it is marked failed
+export const ORDER_MAX_ATTEMPTS = readNumber("ORDER_MAX_ATTEMPTS", 3);
+
+// Recurring swaps, see scheduler.ts
+export const SCHEDULES_PATH =
+  process.env.SCHEDULES_PATH || path.join(__dirname, "data", "schedules.json");
+
+// How often the scheduler looks for due swaps
+export const SCHEDULER_TICK_MS = readNumber("SCHEDULER_TICK_MS", 30000);
+
+// Retries of a failed scheduled swap before it waits for its next cron time
+export const SCHEDULE_MAX_RETRIES = readNumber("SCHEDULE_MAX_RETRIES", 3);
+
+// Wait before retrying a failed scheduled swap
+export const SCHEDULE_RETRY_DELAY_MS = readNumber(
+  "SCHEDULE_RETRY_DELAY_MS",
+  60000
+);
+
+// Keep cached pools fresh with account subscriptions, set to false to only poll
+export const POOL_CACHE_SUBSCRIBE =
+  process.env.POOL_CACHE_SUBSCRIBE !== "false";
+
+// How often cached pools are reloaded without subscriptions
+export const POOL_CACHE_REFRESH_MS = readNumber("POOL_CACHE_REFRESH_MS", 15000);
+
+// How often every pool is reloaded with subscriptions, to pick up new pools
+export const POOL_CACHE_RESYNC_MS = readNumber("POOL_CACHE_RESYNC_MS", 300000);
+
+// Simulate transactions and track paper balances instead of sending, see paper.ts
+export const DRY_RUN = process.env.DRY_RUN === "true";
+
+// Paper balances of each wallet in dry-run mode
+export const PAPER_BALANCES_PATH =
+  process.env.PAPER_BALANCES_PATH ||
+  path.join(__dirname, "data", "paper-balances.json");
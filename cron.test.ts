@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { getNextCronTime, parseCron } from "./cron";
+
+// Next run after a time, both as ISO strings
+function nextRun(expression: string, after: string): string {
+  return getNextCronTime(parseCron(expression), new Date(after)).toISOString();
+}
+
+describe("parseCron", () => {
+  test("expands ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 9-17/4 1,15 * 1-5");
+
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], [9, 13, 17]);
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.equal(schedule.months.size, 12);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.equal(schedule.anyDayOfMonth, false);
+    assert.equal(schedule.anyDayOfWeek, false);
+  });
+
+  test("steps a single value to the end of its range", () => {
+    assert.deepEqual([...parseCron("50/5 * * * *").minutes], [50, 55]);
+  });
+
+  test("folds a day of week of 7 into Sunday", () => {
+    assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+  });
+
+  test("rejects the wrong number of fields", () => {
+    assert.throws(() => parseCron("0 9 * *"), /needs 5 fields/);
+  });
+
+  test("rejects values outside a field's range", () => {
+    assert.throws(() => parseCron("60 * * * *"), /Invalid minute "60"/);
+    assert.throws(() => parseCron("0 0 0 * *"), /Invalid day of month "0"/);
+    assert.throws(() => parseCron("0 0 * 13 *"), /Invalid month "13"/);
+  });
+
+  test("rejects malformed parts", () => {
+    assert.throws(() => parseCron("5-1 * * * *"), /Invalid minute "5-1"/);
+    assert.throws(() => parseCron("*/0 * * * *"), /Invalid minute "\*\/0"/);
+    assert.throws(() => parseCron("a * * * *"), /Invalid minute "a"/);
+  });
+});
+
+describe("getNextCronTime", () => {
+  test("runs strictly after the given minute", () => {
+    assert.equal(
+      nextRun("*/30 * * * *", "2026-03-10T10:30:00.000Z"),
+      "2026-03-10T11:00:00.000Z"
+    );
+    assert.equal(
+      nextRun("* * * * *", "2026-03-10T10:30:45.123Z"),
+      "2026-03-10T10:31:00.000Z"
+    );
+  });
+
+  test("skips to the next weekday", () => {
+    // Friday 2026-03-13 after 09:00, next is Monday
+    assert.equal(
+      nextRun("0 9 * * 1-5", "2026-03-13T09:00:00.000Z"),
+      "2026-03-16T09:00:00.000Z"
+    );
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // The 15th of the month or any Sunday, whichever comes first
+    assert.equal(
+      nextRun("0 0 15 * 0", "2026-03-10T00:00:00.000Z"),
+      "2026-03-15T00:00:00.000Z"
+    );
+    assert.equal(
+      nextRun("0 0 15 * 0", "2026-03-15T00:00:00.000Z"),
+      "2026-03-22T00:00:00.000Z"
+    );
+  });
+
+  test("crosses into the next year", () => {
+    assert.equal(
+      nextRun("0 0 1 1 *", "2026-06-01T00:00:00.000Z"),
+      "2027-01-01T00:00:00.000Z"
+    );
+  });
+
+  test("finds the next Feb 29", () => {
+    assert.equal(
+      nextRun("0 12 29 2 *", "2026-03-01T00:00:00.000Z"),
+      "2028-02-29T12:00:00.000Z"
+    );
+  });
+
+  test("throws for a date that never comes", () => {
+    assert.throws(
+      () => getNextCronTime(parseCron("0 0 31 2 *")),
+      /never matches/
+    );
+  });
+});
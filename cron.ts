@@ -0,0 +1,130 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week, in UTC
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // A "*" day field matches every day, see matchesDay
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted for Sunday and folded into 0
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Longest search for the next run, enough to reach any Feb 29
+const MAX_SEARCH_YEARS = 5;
+
+// Values of one field, from "*", "5", "1-5", "*/15", "1-30/2" and comma lists of them
+function parseField(
+  field: string,
+  { name, min, max }: (typeof FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    let to = range === "*" ? max : Number(end ?? start);
+    // "5/15" means from 5 to the end of the range, every 15
+    if (step && range !== "*" && end === undefined) {
+      to = max;
+    }
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(
+        `Invalid ${name} "${part}", values must be from ${min} to ${max}`
+      );
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression such as "0 9 * * 1-5" (09:00 UTC on
+ * weekdays) or "*\/30 * * * *" (every 30 minutes)
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Cron expression "${expression}" needs 5 fields: minute hour day-of-month month day-of-week`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELDS[i])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+// Like cron, a day matches either day field when both are restricted
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First minute strictly after the given time that matches the schedule
+ * @throws if nothing matches within the next five years, e.g. "0 0 31 2 *"
+ */
+export function getNextCronTime(
+  schedule: CronSchedule,
+  after: Date = new Date()
+): Date {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = new Date(date.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match
+  while (date < limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error("Cron expression never matches");
+}
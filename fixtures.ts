@@ -0,0 +1,326 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  AccountChangeCallback,
+} from "@solana/web3.js";
+import { Market, Network } from "@invariant-labs/sdk-eclipse";
+import base58 from "bs58";
+import fs from "fs";
+import path from "path";
+
+import { PoolWithAddress } from "./app";
+import { getNetworkConfig } from "./network";
+
+// SPL token layouts, the same in Token-2022 before any extension data
+const TOKEN_ACCOUNT_MINT_OFFSET = 0;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const MINT_DECIMALS_OFFSET = 44;
+
+// Invariant tick accounts start with the pool they belong to, after the discriminator
+const TICK_POOL_OFFSET = 8;
+
+// Any URL works, no request made through a fixture connection leaves the process
+const FIXTURE_RPC_URL = "http://fixtures.invalid";
+
+// An account as returned by getAccountInfo, data in base64
+export interface AccountFixture {
+  address: string;
+  owner: string;
+  lamports: number;
+  executable: boolean;
+  data: string;
+}
+
+export interface PoolFixture {
+  network: Network;
+  programId: string;
+  // Slot the accounts were read at
+  slot: number;
+  createdAt: string;
+  // Addresses of the snapshotted pools
+  pools: string[];
+  accounts: AccountFixture[];
+}
+
+interface JsonRpcRequest {
+  jsonrpc: string;
+  id: string | number;
+  method: string;
+  params?: any[];
+}
+
+interface ProgramAccountsFilter {
+  dataSize?: number;
+  memcmp?: { offset: number; bytes: string };
+}
+
+function toAccountFixture(
+  address: PublicKey,
+  account: {
+    owner: PublicKey;
+    lamports: number;
+    executable: boolean;
+    data: Buffer;
+  }
+): AccountFixture {
+  return {
+    address: address.toBase58(),
+    owner: account.owner.toBase58(),
+    lamports: account.lamports,
+    executable: account.executable,
+    data: account.data.toString("base64"),
+  };
+}
+
+/**
+ * Reads the pool, tickmap and tick accounts of each pool, plus its token
+ * mints and reserves, so the pools can be quoted and routed through offline
+ */
+export async function snapshotPools(
+  connection: Connection,
+  market: Market,
+  pools: PoolWithAddress[]
+): Promise<PoolFixture> {
+  const programId = market.program.programId;
+  const tickSize = market.program.account.tick.size;
+  const slot = await connection.getSlot();
+  const accounts = new Map<string, AccountFixture>();
+
+  for (const { pool, address } of pools) {
+    const addresses = [
+      address,
+      pool.tickmap,
+      pool.tokenX,
+      pool.tokenY,
+      pool.tokenXReserve,
+      pool.tokenYReserve,
+    ];
+    const infos = await connection.getMultipleAccountsInfo(addresses);
+    infos.forEach((info, i) => {
+      if (!info) {
+        throw new Error(`Account ${addresses[i].toBase58()} not found`);
+      }
+      accounts.set(
+        addresses[i].toBase58(),
+        toAccountFixture(addresses[i], info)
+      );
+    });
+
+    const ticks = await connection.getProgramAccounts(programId, {
+      filters: [
+        { dataSize: tickSize },
+        {
+          memcmp: { offset: TICK_POOL_OFFSET, bytes: address.toBase58() },
+        },
+      ],
+    });
+    for (const tick of ticks) {
+      accounts.set(
+        tick.pubkey.toBase58(),
+        toAccountFixture(tick.pubkey, tick.account)
+      );
+    }
+  }
+
+  return {
+    network: getNetworkConfig().invariantNetwork,
+    programId: programId.toBase58(),
+    slot,
+    createdAt: new Date().toISOString(),
+    pools: pools.map(({ address }) => address.toBase58()),
+    accounts: Array.from(accounts.values()),
+  };
+}
+
+export function saveFixture(fixture: PoolFixture, fixturePath: string) {
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+}
+
+export function loadFixture(fixturePath: string): PoolFixture {
+  try {
+    return JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as PoolFixture;
+  } catch (error) {
+    throw new Error(`Failed to read fixture at ${fixturePath}. Error: ` + error);
+  }
+}
+
+function matchesFilter(data: Buffer, filter: ProgramAccountsFilter): boolean {
+  if (filter.dataSize !== undefined) {
+    return data.length === filter.dataSize;
+  }
+  if (filter.memcmp) {
+    const bytes = Buffer.from(base58.decode(filter.memcmp.bytes));
+    return data
+      .subarray(filter.memcmp.offset, filter.memcmp.offset + bytes.length)
+      .equals(bytes);
+  }
+  return true;
+}
+
+function encodeAccount(account: AccountFixture) {
+  return {
+    owner: account.owner,
+    lamports: account.lamports,
+    executable: account.executable,
+    rentEpoch: 0,
+    data: [account.data, "base64"],
+  };
+}
+
+// Balance of a token account, read from its data and its mint's decimals
+function readTokenBalance(
+  accounts: Map<string, AccountFixture>,
+  address: string
+) {
+  const account = accounts.get(address);
+  if (!account) {
+    return undefined;
+  }
+  const data = Buffer.from(account.data, "base64");
+  const mintAddress = new PublicKey(
+    data.subarray(TOKEN_ACCOUNT_MINT_OFFSET, TOKEN_ACCOUNT_MINT_OFFSET + 32)
+  );
+  const mint = accounts.get(mintAddress.toBase58());
+  if (!mint) {
+    return undefined;
+  }
+
+  const amount = data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET).toString();
+  const decimals = Buffer.from(mint.data, "base64")[MINT_DECIMALS_OFFSET];
+  const uiAmount = Number(amount) / 10 ** decimals;
+  return { amount, decimals, uiAmount, uiAmountString: uiAmount.toString() };
+}
+
+// Result of one JSON-RPC request, undefined when the fixture can't answer it
+function answerRequest(
+  accounts: Map<string, AccountFixture>,
+  slot: number,
+  method: string,
+  params: any[]
+): unknown {
+  const context = { slot };
+
+  switch (method) {
+    case "getSlot":
+      return slot;
+    case "getAccountInfo": {
+      const account = accounts.get(params[0]);
+      return { context, value: account ? encodeAccount(account) : null };
+    }
+    case "getMultipleAccounts":
+      return {
+        context,
+        value: (params[0] as string[]).map((address) => {
+          const account = accounts.get(address);
+          return account ? encodeAccount(account) : null;
+        }),
+      };
+    case "getProgramAccounts": {
+      const filters: ProgramAccountsFilter[] = params[1]?.filters ?? [];
+      const matching = Array.from(accounts.values())
+        .filter(
+          (account) =>
+            account.owner === params[0] &&
+            filters.every((filter) =>
+              matchesFilter(Buffer.from(account.data, "base64"), filter)
+            )
+        )
+        .map((account) => ({
+          pubkey: account.address,
+          account: encodeAccount(account),
+        }));
+      return params[1]?.withContext ? { context, value: matching } : matching;
+    }
+    case "getTokenAccountBalance": {
+      const balance = readTokenBalance(accounts, params[0]);
+      return balance && { context, value: balance };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Connection that answers from a fixture instead of an RPC node. Account
+ * reads are served from the snapshot, subscriptions never fire, and every
+ * other method fails like an RPC error would, so sends can't reach a network.
+ */
+export class FixtureConnection extends Connection {
+  private readonly accounts: Map<string, AccountFixture>;
+  private nextSubscriptionId = 0;
+
+  constructor(fixture: PoolFixture, commitment: Commitment = "confirmed") {
+    const accounts = new Map(
+      fixture.accounts.map((account) => [account.address, account])
+    );
+    const respond = ({ id, method, params = [] }: JsonRpcRequest) => {
+      const result = answerRequest(accounts, fixture.slot, method, params);
+      return result === undefined
+        ? {
+            jsonrpc: "2.0",
+            id,
+            error: {
+              code: -32601,
+              message: `${method} ${JSON.stringify(params[0] ?? "")} is not in the fixture`,
+            },
+          }
+        : { jsonrpc: "2.0", id, result };
+    };
+
+    super(FIXTURE_RPC_URL, {
+      commitment,
+      fetch: async (_url, init) => {
+        const request = JSON.parse(String(init?.body));
+        const body = Array.isArray(request)
+          ? request.map(respond)
+          : respond(request);
+        return new Response(JSON.stringify(body), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      },
+    });
+    this.accounts = accounts;
+  }
+
+  // Adds or replaces an account, e.g. to move a pool's price within a test
+  setAccount(account: AccountFixture) {
+    this.accounts.set(account.address, account);
+  }
+
+  onAccountChange(
+    _publicKey: PublicKey,
+    _callback: AccountChangeCallback
+  ): number {
+    return this.nextSubscriptionId++;
+  }
+
+  async removeAccountChangeListener(_id: number): Promise<void> {}
+}
+
+/**
+ * Invariant market reading its pools, ticks and tickmaps from a fixture.
+ * Quotes and routes through it run offline.
+ */
+export function createFixtureMarket(fixture: PoolFixture): Promise<Market> {
+  return Market.buildWithoutProvider(
+    fixture.network,
+    new FixtureConnection(fixture),
+    new PublicKey(fixture.programId)
+  );
+}
+
+// The fixture's pools with their addresses, in snapshot order
+export async function getFixturePools(
+  market: Market,
+  fixture: PoolFixture
+): Promise<PoolWithAddress[]> {
+  return Promise.all(
+    fixture.pools.map(async (address) => ({
+      address: new PublicKey(address),
+      pool: await market.getPoolByAddress(new PublicKey(address)),
+    }))
+  );
+}
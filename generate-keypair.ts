@@ -1,30 +1,118 @@
 import { Keypair } from "@solana/web3.js";
 import fs from "fs";
 import path from "path";
+import readline from "readline";
+import dotenv from "dotenv";
 
-// Generate a new keypair
-const keypair = Keypair.generate();
+import { encryptKeystore } from "./signer";
+import { WALLETS_DIR } from "./config";
+import { getCliOption } from "./cli";
 
-// Convert the secret key to a Buffer
-const secretKeyBuffer = Buffer.from(keypair.secretKey);
+dotenv.config();
 
-// Create the keys directory if it doesn't exist
-const keysDir = path.join(__dirname, "keys");
-if (!fs.existsSync(keysDir)) {
-  fs.mkdirSync(keysDir);
+// Pass --keystore to write a password-encrypted keystore instead of a plaintext key file
+const encrypt = process.argv.includes("--keystore");
+
+// Pass --count N and/or --label name to generate labelled wallets, e.g. name-1 ... name-N
+const countOption = getCliOption("count");
+const count = countOption === undefined ? undefined : Number(countOption);
+const label = getCliOption("label");
+
+// Read the keystore password from WALLET_KEYSTORE_PASSWORD, or ask for it
+function getPassword(): Promise<string> {
+  if (process.env.WALLET_KEYSTORE_PASSWORD) {
+    return Promise.resolve(process.env.WALLET_KEYSTORE_PASSWORD);
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    rl.question("Keystore password: ", (password) => {
+      rl.close();
+      resolve(password);
+    });
+  });
+}
+
+// Write a keypair to a file readable only by the current user, encrypted when a password is given
+function saveKeypair(keypair: Keypair, keyPath: string, password?: string) {
+  const contents = password
+    ? JSON.stringify(encryptKeystore(keypair, password), null, 2)
+    : JSON.stringify({
+        publicKey: keypair.publicKey.toBase58(),
+        secretKey: Array.from(Buffer.from(keypair.secretKey)),
+      });
+  fs.writeFileSync(keyPath, contents, { mode: 0o600 });
+  // The mode only applies to a new file, an overwritten one keeps its own
+  fs.chmodSync(keyPath, 0o600);
+}
+
+async function main() {
+  let password: string | undefined;
+  if (encrypt) {
+    password = await getPassword();
+    if (!password) {
+      throw new Error("The keystore password can't be empty");
+    }
+  }
+
+  // With --count or --label, generate labelled wallets for wallets.ts
+  if (count !== undefined || label !== undefined) {
+    const walletCount = count ?? 1;
+    if (!Number.isInteger(walletCount) || walletCount < 1) {
+      throw new Error("--count must be a positive integer");
+    }
+    if (!fs.existsSync(WALLETS_DIR)) {
+      fs.mkdirSync(WALLETS_DIR, { recursive: true });
+    }
+
+    const prefix = label ?? "wallet";
+    for (let i = 1; i <= walletCount; i++) {
+      const walletLabel = walletCount === 1 ? prefix : `${prefix}-${i}`;
+      const keyPath = path.join(WALLETS_DIR, `${walletLabel}.json`);
+      if (fs.existsSync(keyPath)) {
+        throw new Error(`Wallet ${walletLabel} already exists at ${keyPath}`);
+      }
+
+      const keypair = Keypair.generate();
+      saveKeypair(keypair, keyPath, password);
+      console.log(`${walletLabel}: ${keypair.publicKey.toBase58()}`);
+    }
+
+    console.log(`\n${walletCount} wallets saved to ${WALLETS_DIR}`);
+    console.log("\nWARNING: Keep your secret keys safe and never share them!");
+    return;
+  }
+
+  // Generate a new keypair
+  const keypair = Keypair.generate();
+
+  // Create the keys directory if it doesn't exist
+  const keysDir = path.join(__dirname, "keys");
+  if (!fs.existsSync(keysDir)) {
+    fs.mkdirSync(keysDir);
+  }
+
+  const keyPath = path.join(
+    keysDir,
+    encrypt ? "keystore.json" : "keypair.json"
+  );
+  saveKeypair(keypair, keyPath, password);
+
+  console.log("Keypair generated and saved!");
+  console.log("Public Key:", keypair.publicKey.toBase58());
+  console.log("Key file location:", keyPath);
+  if (encrypt) {
+    console.log(
+      "\nSet SIGNER_BACKEND=keystore and WALLET_KEYSTORE_PASSWORD to trade with it."
+    );
+  }
+  console.log("\nWARNING: Keep your secret key safe and never share it!");
 }
 
-// Save the secret key to a file
-const keyPath = path.join(keysDir, "keypair.json");
-fs.writeFileSync(
-  keyPath,
-  JSON.stringify({
-    publicKey: keypair.publicKey.toBase58(),
-    secretKey: Array.from(secretKeyBuffer),
-  })
-);
-
-console.log("Keypair generated and saved!");
-console.log("Public Key:", keypair.publicKey.toBase58());
-console.log("Key file location:", keyPath);
-console.log("\nWARNING: Keep your secret key safe and never share it!");
+main().catch((error) => {
+  console.error("Failed to generate keypair:", error);
+  process.exit(1);
+});
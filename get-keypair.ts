@@ -4,12 +4,14 @@ import path from "path";
 
 /**
  * Reads the keypair from the stored file
+ * @param keyPath Path to the key file, keys/keypair.json by default
  * @returns Keypair instance
  */
-export function getStoredKeypair(): Keypair {
+export function getStoredKeypair(
+  keyPath: string = path.join(__dirname, "keys", "keypair.json")
+): Keypair {
   try {
     // Read the keypair file
-    const keyPath = path.join(__dirname, "keys", "keypair.json");
     const keyfileContent = fs.readFileSync(keyPath, "utf-8");
     const { secretKey } = JSON.parse(keyfileContent);
 
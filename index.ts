@@ -1,11 +1,51 @@
 import express, { Request, Response, NextFunction } from 'express';
-import {  createAssociatedTokenAccount, getAvailableWrappedSolBalance } from './app';
+import {
+  connection,
+  createAssociatedTokenAccount,
+  getAllPoolsWithAddresses,
+  getMarket,
+  getNativeBalance,
+  getPoolsForTokenPair,
+  getTokenBalance,
+  settledStatus,
+  swap,
+  unwrapSol,
+  wrapSol,
+} from './app';
+import { listTokens, resolveTokenInput } from './token-registry';
+import { getQuotes, isQuoteOk, PoolQuote, SwapMode } from './quote';
+import { MinAmountOutError, resolveSlippageBps } from './slippage';
+import { DEFAULT_SPLIT_STEPS, executeSplitPlan, MAX_SPLIT_STEPS, planSplit } from './split';
+import { executeRoute, findBestRoute, MAX_ROUTE_HOPS, PartialRouteExecution, Route, RoutePartiallyExecutedError } from './router';
+import { formatSizingStrategy, parseSizingOptions, sizeTrade, SizingOptions } from './sizing';
+import {
+  buildCreateAccountTransaction,
+  buildSwapTransaction,
+  buildUnwrapTransaction,
+  buildWrapTransaction,
+  InvalidSignedTransactionError,
+  submitSignedTransaction,
+  UnsignedTransaction,
+} from './unsigned-transactions';
+import { getDefaultSigner } from './signer';
+import { ComputeBudgetOptions, parseComputeUnitLimit, parsePriorityFee } from './compute-budget';
+import { TransactionFailedError } from './transaction-sender';
+import { computePnl, getTrades, JournalEntry, TradeFilter } from './journal';
+import { Reconciliation } from './reconcile';
+import { cancelOrder, createOrder, getOrder, isOrderKind, listOrders, Order, OrderStatus, startOrderEngine } from './orders';
+import { getPoolCacheStatus } from './pool-cache';
+import { getPaperWallet, isDryRun, resetPaperWallet } from './paper';
+import { getPortfolio } from './portfolio';
+import { DEFAULT_DEPTH_TICKS, getPoolAnalytics, getPoolDepth, MAX_DEPTH_TICKS } from './pool-analytics';
+import { createSchedule, deleteSchedule, getSchedule, listSchedules, Schedule, setScheduleEnabled, startScheduler } from './scheduler';
+import { getNetworkConfig } from './network';
+import { FailoverConnection } from './rpc';
 import { FEE_TIER, Market, Network, Pair } from "@invariant-labs/sdk-eclipse";
 import cors from 'cors';
 import { json, urlencoded } from 'express';
-import { Connection, LAMPORTS_PER_SOL, PublicKey, sendAndConfirmTransaction, SystemProgram, Transaction } from '@solana/web3.js';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
-import { createAssociatedTokenAccountInstruction, createSyncNativeInstruction, getAccount, getAssociatedTokenAddress, NATIVE_MINT, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { NATIVE_MINT } from '@solana/spl-token';
 //import { deserializeSwapSDK } from '@deserialize/swap-sdk-eclipse';
 
 //const sdk = new deserializeSwapSDK();
@@ -14,243 +54,187 @@ import { createAssociatedTokenAccountInstruction, createSyncNativeInstruction, g
 // Initialize Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
-// Eclipse mainnet RPC endpoint
-const ECLIPSE_RPC_URL = "https://mainnetbeta-rpc.eclipse.xyz";
-const connection = new Connection(ECLIPSE_RPC_URL, "confirmed");
-
-async function wrapSol(amountInSol: number, publicKey: PublicKey): Promise<{ associatedTokenAccount: PublicKey; lamportsToWrap: number; }> {
-  const lamportsToWrap = Math.floor(amountInSol * LAMPORTS_PER_SOL);
-
-  // Check if we have enough balance
-  const balance = await connection.getBalance(publicKey)
-  if (balance < lamportsToWrap + 5000) {
-    // Reserve 5000 lamports for transaction fees
-    throw new Error(
-      `Insufficient balance. Need ${
-        (lamportsToWrap + 5000) / LAMPORTS_PER_SOL
-      } SOL, but only have ${balance / LAMPORTS_PER_SOL} SOL`
-    );
-  }
-
-  const associatedTokenAccount = await getAssociatedTokenAddress(
-    NATIVE_MINT,
-    publicKey
-  );
 
-  console.log(
-    `Wrapping ${amountInSol} SOL (${lamportsToWrap} lamports) into WSOL...`
-  );
-  console.log(`WSOL account: ${associatedTokenAccount.toBase58()}`);
+// Slippage settings accepted by the swap routes
+interface SlippageOptions {
+  slippageBps: number;
+  minAmountOut?: BN;
+}
 
-  // Check if the associated token account already exists
-  let accountExists = false;
-  try {
-    await getAccount(
-      connection,
-      associatedTokenAccount,
-      "confirmed",
-      TOKEN_PROGRAM_ID
-    );
-    accountExists = true;
-    console.log("WSOL account already exists");
-  } catch (error) {
-    console.log("WSOL account doesn't exist, will create it");
+// Read the swap mode from a request body, exactIn unless exactOut is asked for
+function parseSwapMode(body: any): SwapMode {
+  if (body.mode === undefined || body.mode === 'exactIn') {
+    return 'exactIn';
   }
-
-  const instructions = [];
-
-  // Add create account instruction if needed
-  if (!accountExists) {
-    instructions.push(
-      createAssociatedTokenAccountInstruction(
-        publicKey,
-        associatedTokenAccount,
-        publicKey,
-        NATIVE_MINT
-      )
-    );
+  if (body.mode === 'exactOut') {
+    return 'exactOut';
   }
+  throw new Error('mode must be exactIn or exactOut');
+}
 
-  // Add transfer and sync instructions
-  instructions.push(
-    SystemProgram.transfer({
-      fromPubkey: publicKey,
-      toPubkey: associatedTokenAccount,
-      lamports: lamportsToWrap,
-    }),
-    createSyncNativeInstruction(associatedTokenAccount)
+// Read slippageBps and minAmountOut from a request body, throwing on invalid values
+function parseSlippageOptions(body: any): SlippageOptions {
+  const slippageBps = resolveSlippageBps(
+    body.slippageBps === undefined ? undefined : Number(body.slippageBps)
   );
 
-  const wrapTransaction = new Transaction().add(...instructions);
+  if (body.minAmountOut === undefined) {
+    return { slippageBps };
+  }
+  if (!/^\d+$/.test(String(body.minAmountOut))) {
+    throw new Error('minAmountOut must be a non-negative integer in base units');
+  }
+  return { slippageBps, minAmountOut: new BN(String(body.minAmountOut)) };
+}
 
+// Read the optional wallet publicKey of a non-custodial request, throwing if it is invalid
+function parsePublicKey(body: any): PublicKey | undefined {
+  if (body.publicKey === undefined) {
+    return undefined;
+  }
   try {
-    const signature = await sendAndConfirmTransaction(
-      connection,
-      wrapTransaction,
-      [keypair]
-    );
-    console.log(`SOL wrapped successfully! Transaction: ${signature}`);
-    return { associatedTokenAccount, lamportsToWrap};
+    return new PublicKey(String(body.publicKey));
   } catch (error) {
-    console.error("Failed to wrap SOL:", error);
-    throw error;
+    throw new Error('publicKey must be a base58 public key');
   }
 }
 
-// swap function
-async function smartSwapEthToUsdt(market: Market, tokenX: string, tokenY: string, amount: number): Promise<void> {
-  console.log("\n=== SWAP: ETH TO USDT ===");
-  // CONVERT AMOUNT TO LAMPORTS
-  amount = wrapSol(amount); // Convert amount to wrapped SOL
-  // convert amount to BN
-  const amountBN = new BN(amount);
-  // Get available wrapped SOL balance
-  const wrappedSolBalance = await getAvailableWrappedSolBalance();
-  if (amountBN < wrappedSolBalance) {
-    console.log(`Insufficient wrapped SOL balance: ${wrappedSolBalance.toString()} lamports`);
-    return;
-  }
-  const swapAmount = wrappedSolBalance.muln(40).divn(100); // 40% of balance
+// Read priorityFee ("none", "fixed:<microLamports>" or "auto:<percentile>") and
+// computeUnitLimit ("simulate", "none" or units) from a request body, config defaults otherwise
+function parseComputeBudgetOptions(body: any): ComputeBudgetOptions {
+  return {
+    priorityFee: body.priorityFee === undefined ? undefined : parsePriorityFee(String(body.priorityFee)),
+    unitLimit: body.computeUnitLimit === undefined ? undefined : parseComputeUnitLimit(body.computeUnitLimit)
+  };
+}
 
-  if (swapAmount.eqn(0)) {
-    console.log("No wrapped SOL available for swap");
-    return;
-  }
+// JSON representation of a transaction waiting for the wallet's signature
+function serializeUnsignedTransaction(unsigned: UnsignedTransaction) {
+  return {
+    transaction: unsigned.transaction,
+    feePayer: unsigned.feePayer.toBase58(),
+    blockhash: unsigned.blockhash,
+    lastValidBlockHeight: unsigned.lastValidBlockHeight
+  };
+}
 
-  console.log(
-    `Available wrapped SOL: ${wrappedSolBalance.toString()} lamports`
-  );
-  console.log(`Swap amount (40%): ${swapAmount.toString()} lamports`);
+// Read sizing and maxNotionalUsd from a swap request body, undefined when neither is given
+function parseSwapSizing(body: any, mode: SwapMode): SizingOptions | undefined {
+  if (body.sizing === undefined && body.maxNotionalUsd === undefined) {
+    return undefined;
+  }
+  if (mode === 'exactOut') {
+    throw new Error('sizing and maxNotionalUsd only apply to exactIn swaps');
+  }
+  if (body.sizing !== undefined && body.amount !== undefined) {
+    throw new Error('Give either amount or sizing, not both');
+  }
+  const maxNotionalUsd = body.maxNotionalUsd === undefined ? undefined : Number(body.maxNotionalUsd);
+  // With only a cap, the requested amount is a fixed size
+  return parseSizingOptions(body.sizing === undefined ? `fixed:${body.amount}` : String(body.sizing), maxNotionalUsd);
+}
 
-  // Try different token pairs
-  const tokenPairs = [
-    { tokenA: ETH_MINT, tokenB: USDT_MINT, name: "ETH/USDT" },
-    { tokenA: ETH_MINT, tokenB: USDC_MINT, name: "ETH/USDC" },
-  ];
+// JSON representation of a transaction that was rejected, failed on chain or expired
+function serializeTransactionFailure(error: TransactionFailedError) {
+  return {
+    error: 'Unprocessable Entity',
+    message: error.message,
+    failure: error.outcome.kind,
+    transactionId: error.outcome.signature,
+    logs: error.outcome.logs
+  };
+}
 
-  for (const { tokenA, tokenB, name } of tokenPairs) {
-    console.log(`\n--- Trying ${name} ---`);
+// Read type, wallet, token, since and limit from a journal query string, throwing on invalid values
+async function parseTradeFilter(query: any): Promise<TradeFilter> {
+  const filter: TradeFilter = {};
+  if (query.type !== undefined) {
+    const types: JournalEntry['type'][] = ['quote', 'swap', 'wrap', 'unwrap', 'ata'];
+    if (!types.includes(query.type)) {
+      throw new Error(`type must be one of ${types.join(', ')}`);
+    }
+    filter.type = query.type;
+  }
+  if (query.wallet !== undefined) {
+    filter.wallet = parsePublicKey({ publicKey: query.wallet })!.toBase58();
+  }
+  if (query.token !== undefined) {
+    filter.mint = (await resolveTokenInput(connection, String(query.token))).mint.toBase58();
+  }
+  if (query.since !== undefined) {
+    filter.since = new Date(String(query.since));
+    if (isNaN(filter.since.getTime())) {
+      throw new Error('since must be a date, e.g. 2024-01-31 or an ISO timestamp');
+    }
+  }
+  if (query.limit !== undefined) {
+    filter.limit = Number(query.limit);
+    if (!Number.isInteger(filter.limit) || filter.limit < 1) {
+      throw new Error('limit must be a positive integer');
+    }
+  }
+  return filter;
+}
 
-    try {
-      // Get all pools for this token pair with their actual addresses
-      const poolsWithAddresses = await getPoolsForTokenPair(
-        market,
-        tokenA,
-        tokenB
-      );
+// JSON representation of what a confirmed swap actually did
+function serializeReconciliation(reconciliation: Reconciliation) {
+  return {
+    amountIn: reconciliation.amountIn.toString(),
+    amountOut: reconciliation.amountOut.toString(),
+    networkFee: reconciliation.networkFee,
+    price: reconciliation.price,
+    quotedPrice: reconciliation.quotedPrice,
+    realizedSlippageBps: reconciliation.realizedSlippageBps,
+    slot: reconciliation.slot
+  };
+}
 
-      if (poolsWithAddresses.length === 0) {
-        console.log(`No pools found for ${name}`);
-        continue;
-      }
+// JSON representation of a pool quote
+function serializeQuote(quote: PoolQuote) {
+  return {
+    pool: quote.pool.address.toBase58(),
+    fee: quote.pool.pool.fee.toString(),
+    tokenIn: quote.tokenIn.toBase58(),
+    tokenOut: quote.tokenOut.toBase58(),
+    xToY: quote.xToY,
+    mode: quote.mode,
+    status: isQuoteOk(quote) ? 'ok' : quote.status,
+    amountIn: quote.amountIn.toString(),
+    maxAmountIn: quote.maxAmountIn.toString(),
+    amountOut: quote.amountOut.toString(),
+    swapFee: quote.fee.toString(),
+    priceImpact: quote.priceImpact.toString(),
+    minReceived: quote.minReceived.toString()
+  };
+}
 
-      console.log(`Found ${poolsWithAddresses.length} pools for ${name}`);
-
-      // Try each pool
-      for (let i = 0; i < poolsWithAddresses.length; i++) {
-        const { pool, address } = poolsWithAddresses[i];
-        console.log(`\n  --- Pool ${i + 1}/${poolsWithAddresses.length} ---`);
-        console.log(
-          `  Pool tokens: ${pool.tokenX.toString()} ↔ ${pool.tokenY.toString()}`
-        );
-        console.log(
-          `  Pool fee: ${pool.fee?.toString()} (${
-            (pool.fee?.toNumber() || 0) / 10000000
-          }%)`
-        );
-        console.log(`  Pool address: ${address.toString()}`);
-
-        try {
-          // Create pair using the actual pool's fee structure
-          const feeTier = {
-            fee: pool.fee,
-            tickSpacing: pool.tickSpacing || 1,
-          };
-          const pair = new Pair(pool.tokenX, pool.tokenY, feeTier);
-
-          // Determine swap direction
-          const xToY = pair.tokenX.equals(ETH_MINT);
-          console.log(`  Swap direction - X to Y: ${xToY}`);
-
-          // Get associated token accounts
-          const accountX = getAssociatedTokenAddressSync(
-            pair.tokenX,
-            keypair.publicKey,
-            true,
-            pair.tokenX.equals(USDT_MINT) || pair.tokenX.equals(USDC_MINT)
-              ? TOKEN_2022_PROGRAM_ID
-              : TOKEN_PROGRAM_ID
-          );
-
-          const accountY = getAssociatedTokenAddressSync(
-            pair.tokenY,
-            keypair.publicKey,
-            true,
-            pair.tokenY.equals(USDT_MINT) || pair.tokenY.equals(USDC_MINT)
-              ? TOKEN_2022_PROGRAM_ID
-              : TOKEN_PROGRAM_ID
-          );
-
-          // Perform simulation first using the actual pool address
-          console.log(" Simulating swap...");
-          const slippage = toDecimal(0, 0); // 0% slippage
-
-          const simulation = await swapSimulation(
-            xToY,
-            true, // byAmountIn
-            swapAmount,
-            undefined,
-            slippage,
-            market,
-            address, // Use the actual pool address
-            TICK_CROSSES_PER_IX_NATIVE_TOKEN
-          );
-
-          if (simulation.status !== SimulationStatus.Ok) {
-            console.log(`Simulation failed: ${simulation.status}`);
-            continue;
-          }
-
-          console.log("Simulation successful!");
-          console.log(
-            `  Estimated price after swap: ${simulation.priceAfterSwap}`
-          );
-
-          // Execute the swap
-          console.log("Executing swap...");
-          const txHash = await market.swap(
-            {
-              xToY,
-              estimatedPriceAfterSwap: simulation.priceAfterSwap,
-              pair,
-              amount: swapAmount,
-              slippage,
-              byAmountIn: true,
-              accountX,
-              accountY,
-              owner: keypair.publicKey,
-            },
-            keypair as any
-          );
-
-          console.log("Swap completed successfully!");
-          console.log(`Transaction hash: ${txHash}`);
-          return; // Exit after successful swap
-        } catch (error) {
-          console.log(`Error with pool ${i + 1}:`, error);
-          if (error instanceof Error) {
-            console.log(`  Error message: ${error.message}`);
-          }
-          continue;
-        }
-      }
-    } catch (error) {
-      console.log(`Error processing ${name}:`, error);
-      continue;
-    }
-  }
+// JSON representation of a multi-hop route
+function serializeRoute(route: Route) {
+  return {
+    path: route.path.map((mint) => mint.toBase58()),
+    amountIn: route.amountIn.toString(),
+    amountOut: route.amountOut.toString(),
+    legs: route.legs.map((leg) => ({
+      pool: leg.pool.address.toBase58(),
+      fee: leg.pool.pool.fee.toString(),
+      tokenIn: leg.tokenIn.toBase58(),
+      tokenOut: leg.tokenOut.toBase58(),
+      xToY: leg.xToY,
+      amountIn: leg.amountIn.toString(),
+      amountOut: leg.amountOut.toString()
+    }))
+  };
+}
 
-  console.log("All swap attempts failed - no suitable pools found");
+// JSON representation of a route cut short, with the intermediate token the wallet was left holding
+function serializePartialRoute(execution: PartialRouteExecution) {
+  return {
+    transactionIds: execution.signatures,
+    failedLeg: execution.failedLeg,
+    heldToken: execution.heldMint.toBase58(),
+    heldAmount: execution.amountOut.toString(),
+    route: serializeRoute(execution.route)
+  };
 }
 
 // Middleware
@@ -266,54 +250,1198 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
+  const poolCache = getPoolCacheStatus();
   res.status(200).json({
-    status: 'OK',
+    status: poolCache.stale ? 'DEGRADED' : 'OK',
     timestamp: new Date().toISOString(),
-    message: 'Express server is running'
+    message: 'Express server is running',
+    network: getNetworkConfig().name,
+    // Transactions are simulated against paper balances, see /api/paper
+    dryRun: isDryRun(),
+    rpc: connection instanceof FailoverConnection ? connection.getEndpointStatus() : [{ url: connection.rpcEndpoint }],
+    poolCache
   });
 });
 
+// Quote the amount against every pool for the pair, ranked best first
+app.post('/api/quote', async (req: Request, res: Response) => {
+  try {
+    const { fromToken, toToken, amount } = req.body;
+    let slippage: SlippageOptions;
+    let mode: SwapMode;
+    try {
+      slippage = parseSlippageOptions(req.body);
+      mode = parseSwapMode(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid slippage'
+      });
+    }
 
-// POST endpoint for trading/swap operations
-app.post('/api/swap',async (req: Request, res: Response) => {
+    if (!fromToken || !toToken || !amount) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'fromToken, toToken, and amount are required'
+      });
+    }
+
+    if (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero()) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'amount must be a positive integer in base units'
+      });
+    }
+
+    let fromMint: PublicKey;
+    let toMint: PublicKey;
+    try {
+      fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+      toMint = (await resolveTokenInput(connection, String(toToken))).mint;
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Unknown token'
+      });
+    }
+
+    const market = await getMarket();
+    const quotes = await getQuotes(market, fromMint, [toMint], new BN(String(amount)), slippage.slippageBps, mode);
+    const best = quotes.find(isQuoteOk);
+
+    res.status(200).json({
+      success: true,
+      slippageBps: slippage.slippageBps,
+      best: best ? serializeQuote(best) : null,
+      meetsMinAmountOut: best && slippage.minAmountOut ? best.amountOut.gte(slippage.minAmountOut) : undefined,
+      quotes: quotes.map(serializeQuote)
+    });
+  } catch (error) {
+    console.error('Error quoting swap:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to quote swap'
+    });
+  }
+});
+
+// Plan (and optionally execute) an order split across several pools.
+// toToken may be a list, e.g. ["USDT", "USDC"], to split across output tokens.
+app.post('/api/split', async (req: Request, res: Response) => {
   try {
-    // take the token address for the swap, will change later to the token name
-    const { fromToken, toToken, amount, publicKey} = req.body;
-    
-    // Validation
+    const { fromToken, toToken, amount, steps, execute } = req.body;
+    let slippage: SlippageOptions;
+    let computeBudget: ComputeBudgetOptions;
+    try {
+      slippage = parseSlippageOptions(req.body);
+      computeBudget = parseComputeBudgetOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid slippage'
+      });
+    }
+
     if (!fromToken || !toToken || !amount) {
       return res.status(400).json({
         error: 'Bad Request',
         message: 'fromToken, toToken, and amount are required'
       });
     }
-    
-    // Simulate swap operation
-    const swapResult = {
-      transactionId: Math.random().toString(36).substr(2, 16),
-      fromToken,
-      toToken,
-      amountIn: amount,
-      estimatedAmountOut: amount * 0.98, // Simulate 2% slippage
-      //slippage: slippage || 0.02,
-      status: 'pending',
-      timestamp: new Date().toISOString()
+
+    if (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero()) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'amount must be a positive integer in base units'
+      });
+    }
+
+    const splitSteps = steps === undefined ? DEFAULT_SPLIT_STEPS : Number(steps);
+    if (!Number.isInteger(splitSteps) || splitSteps < 1 || splitSteps > MAX_SPLIT_STEPS) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `steps must be an integer between 1 and ${MAX_SPLIT_STEPS}`
+      });
+    }
+
+    let fromMint: PublicKey;
+    const toMints: PublicKey[] = [];
+    try {
+      fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+      for (const token of Array.isArray(toToken) ? toToken : [toToken]) {
+        toMints.push((await resolveTokenInput(connection, String(token))).mint);
+      }
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Unknown token'
+      });
+    }
+
+    const market = await getMarket();
+    const plan = await planSplit(
+      market,
+      fromMint,
+      toMints,
+      new BN(String(amount)),
+      splitSteps,
+      slippage.slippageBps
+    );
+    if (!plan) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'No pools can fill this order'
+      });
+    }
+
+    const serializedPlan = {
+      amountIn: plan.amountIn.toString(),
+      totalAmountOut: plan.totalAmountOut.toString(),
+      bestSinglePoolAmountOut: plan.bestSinglePoolAmountOut.toString(),
+      allocations: plan.allocations.map((allocation) => ({
+        share: allocation.share,
+        ...serializeQuote(allocation.quote)
+      }))
     };
 
+    if (execute !== true) {
+      return res.status(200).json({
+        success: true,
+        plan: serializedPlan
+      });
+    }
+
+    const execution = await executeSplitPlan(market, plan, slippage.slippageBps, slippage.minAmountOut, computeBudget);
+    res.status(200).json({
+      success: execution.fills.some((fill) => fill.signature),
+      plan: serializedPlan,
+      fills: execution.fills.map((fill) => ({
+        pool: fill.allocation.quote.pool.address.toBase58(),
+        share: fill.allocation.share,
+        transactionId: fill.signature,
+        error: fill.error
+      })),
+      filledAmountIn: execution.filledAmountIn.toString(),
+      filledAmountOut: execution.filledAmountOut,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error processing split order:', error);
+    if (error instanceof MinAmountOutError) {
+      return res.status(422).json({
+        error: 'Unprocessable Entity',
+        message: error.message
+      });
+    }
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to process split order'
+    });
+  }
+});
+
+// Quote the best route (direct or through up to 3 pools) without executing it
+app.post('/api/route', async (req: Request, res: Response) => {
+  try {
+    const { fromToken, toToken, amount, maxHops } = req.body;
+
+    if (!fromToken || !toToken || !amount) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'fromToken, toToken, and amount are required'
+      });
+    }
+
+    if (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero()) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'amount must be a positive integer in base units'
+      });
+    }
+
+    const hops = maxHops === undefined ? MAX_ROUTE_HOPS : Number(maxHops);
+    if (!Number.isInteger(hops) || hops < 1 || hops > MAX_ROUTE_HOPS) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: `maxHops must be an integer from 1 to ${MAX_ROUTE_HOPS}`
+      });
+    }
+
+    let fromMint: PublicKey;
+    let toMint: PublicKey;
+    try {
+      fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+      toMint = (await resolveTokenInput(connection, String(toToken))).mint;
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Unknown token'
+      });
+    }
+
+    const market = await getMarket();
+    const route = await findBestRoute(market, fromMint, toMint, new BN(String(amount)), hops);
+    if (!route) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'No route found for this token pair'
+      });
+    }
+
     res.status(200).json({
       success: true,
-      message: 'Swap initiated successfully',
-      swap: swapResult
+      route: serializeRoute(route)
     });
   } catch (error) {
-    console.error('Error processing swap:', error);
+    console.error('Error finding route:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to find route'
+    });
+  }
+});
+
+// List the tokens known to the token registry
+app.get('/api/tokens', (req: Request, res: Response) => {
+  const tokens = listTokens().map((token) => ({
+    symbol: token.symbol,
+    name: token.name,
+    mint: token.mint.toBase58(),
+    decimals: token.decimals,
+    tokenProgram: token.tokenProgram.toBase58()
+  }));
+
+  res.status(200).json({
+    success: true,
+    tokens
+  });
+});
+
+// List journal entries, most recent first
+// Filter with ?type=quote|swap|wrap|unwrap|ata, wallet, token, since and limit (100 by default)
+app.get('/api/trades', async (req: Request, res: Response) => {
+  let filter: TradeFilter;
+  try {
+    filter = await parseTradeFilter(req.query);
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid filter'
+    });
+  }
+
+  try {
+    const trades = getTrades({ limit: 100, ...filter });
+    res.status(200).json({
+      success: true,
+      count: trades.length,
+      trades
+    });
+  } catch (error) {
+    console.error('Error reading trades:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to read trades'
+    });
+  }
+});
+
+// Realized P&L per token pair from the journal's confirmed swaps
+// Filter with ?wallet, token and since
+app.get('/api/pnl', async (req: Request, res: Response) => {
+  let filter: TradeFilter;
+  try {
+    filter = await parseTradeFilter(req.query);
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid filter'
+    });
+  }
+
+  try {
+    // getTrades lists the most recent first, the cost basis needs the oldest first
+    const swaps = getTrades({ ...filter, type: 'swap', limit: undefined }).reverse();
+    res.status(200).json({
+      success: true,
+      pairs: await computePnl(connection, swaps)
+    });
+  } catch (error) {
+    console.error('Error computing P&L:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to compute P&L'
+    });
+  }
+});
+
+// Price, liquidity, reserves, TVL and fee tier of every pool, or only those of ?tokenA and tokenB
+app.get('/api/pools', async (req: Request, res: Response) => {
+  const { tokenA, tokenB } = req.query;
+  if ((tokenA === undefined) !== (tokenB === undefined)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'tokenA and tokenB must be given together'
+    });
+  }
+
+  let mints: PublicKey[] | undefined;
+  if (tokenA !== undefined && tokenB !== undefined) {
+    try {
+      mints = [
+        (await resolveTokenInput(connection, String(tokenA))).mint,
+        (await resolveTokenInput(connection, String(tokenB))).mint
+      ];
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Unknown token'
+      });
+    }
+  }
+
+  try {
+    const market = await getMarket();
+    const allPools = await getAllPoolsWithAddresses(market);
+    const pools = mints ? await getPoolsForTokenPair(market, mints[0], mints[1]) : allPools;
+    const analytics = [];
+    for (const pool of pools) {
+      analytics.push(await getPoolAnalytics(market, pool, allPools));
+    }
+    res.status(200).json({
+      success: true,
+      count: analytics.length,
+      pools: analytics
+    });
+  } catch (error) {
+    console.error('Error reading pools:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to read pools'
+    });
+  }
+});
+
+app.get('/api/pools/:address', async (req: Request, res: Response) => {
+  try {
+    const market = await getMarket();
+    const allPools = await getAllPoolsWithAddresses(market);
+    const pool = allPools.find(({ address }) => address.toBase58() === req.params.address);
+    if (!pool) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Pool ${req.params.address} not found`
+      });
+    }
+    res.status(200).json({
+      success: true,
+      pool: await getPoolAnalytics(market, pool, allPools)
+    });
+  } catch (error) {
+    console.error('Error reading pool:', error);
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to process swap'
+      message: error instanceof Error ? error.message : 'Failed to read pool'
     });
   }
 });
 
+// Depth chart of a pool: liquidity and token amounts between the ?ticks initialized ticks closest to its price
+app.get('/api/pools/:address/depth', async (req: Request, res: Response) => {
+  const ticks = req.query.ticks === undefined ? DEFAULT_DEPTH_TICKS : Number(req.query.ticks);
+  if (!Number.isInteger(ticks) || ticks < 1 || ticks > MAX_DEPTH_TICKS) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: `ticks must be an integer between 1 and ${MAX_DEPTH_TICKS}`
+    });
+  }
+
+  try {
+    const market = await getMarket();
+    const pool = (await getAllPoolsWithAddresses(market)).find(
+      ({ address }) => address.toBase58() === req.params.address
+    );
+    if (!pool) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Pool ${req.params.address} not found`
+      });
+    }
+    res.status(200).json({
+      success: true,
+      depth: await getPoolDepth(market, pool, ticks)
+    });
+  } catch (error) {
+    console.error('Error reading pool depth:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to read pool depth'
+    });
+  }
+});
+
+// POST endpoint for trading/swap operations
+app.post('/api/swap',async (req: Request, res: Response) => {
+  try {
+    // tokens can be given as a registered symbol or a mint address
+    // amount is expressed in base units: the input to spend for exactIn (lamports for ETH),
+    // or the output to buy for exactOut
+    // nativeEth spends or receives native ETH, wrapping and unwrapping inside the swap transaction
+    // sizing ("fixed:<amount>", "percent:<0-100>" or "all-but:<reserve>") sizes an exactIn swap
+    // from the wallet balance instead of a fixed amount, maxNotionalUsd caps its USD value
+    // publicKey returns an unsigned transaction for that wallet to sign instead of swapping
+    // priorityFee and computeUnitLimit override the configured compute budget
+    const { fromToken, toToken, amount, multiHop, nativeEth } = req.body;
+    let slippage: SlippageOptions;
+    let mode: SwapMode;
+    let sizing: SizingOptions | undefined;
+    let owner: PublicKey | undefined;
+    let computeBudget: ComputeBudgetOptions;
+    try {
+      slippage = parseSlippageOptions(req.body);
+      mode = parseSwapMode(req.body);
+      sizing = parseSwapSizing(req.body, mode);
+      owner = parsePublicKey(req.body);
+      computeBudget = parseComputeBudgetOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid slippage'
+      });
+    }
+    
+    // Validation
+    if (!fromToken || !toToken || (!amount && !sizing)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'fromToken, toToken, and amount or sizing are required'
+      });
+    }
+
+    let fromMint: PublicKey;
+    let toMint: PublicKey;
+    try {
+      fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+      toMint = (await resolveTokenInput(connection, String(toToken))).mint;
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Unknown token'
+      });
+    }
+
+    if (fromMint.equals(toMint)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cannot swap a token for itself'
+      });
+    }
+
+    if (amount && (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero())) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'amount must be a positive integer in base units'
+      });
+    }
+
+    const market = await getMarket();
+    let swapAmount: BN;
+    if (sizing) {
+      const spendsNativeEth = nativeEth === true && fromMint.equals(NATIVE_MINT);
+      const wallet = owner ?? getDefaultSigner().publicKey;
+      const balance = spendsNativeEth
+        ? await getNativeBalance(wallet)
+        : await getTokenBalance(fromMint, wallet);
+      swapAmount = await sizeTrade(market, fromMint, balance, sizing);
+      if (swapAmount.isZero()) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Sizing left nothing to swap'
+        });
+      }
+    } else {
+      swapAmount = new BN(String(amount));
+    }
+
+    // Route through intermediate tokens when asked to, or when there is no direct pool
+    const directPools = multiHop === true ? [] : await getPoolsForTokenPair(market, fromMint, toMint);
+    if (directPools.length === 0) {
+      if (mode === 'exactOut') {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'exactOut swaps need a direct pool for the token pair'
+        });
+      }
+      if (nativeEth === true) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'nativeEth swaps need a direct pool for the token pair'
+        });
+      }
+      if (owner) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Unsigned swaps need a direct pool for the token pair'
+        });
+      }
+
+      const route = await findBestRoute(market, fromMint, toMint, swapAmount);
+      if (!route) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'No route found for this token pair'
+        });
+      }
+
+      const routeExecution = await executeRoute(
+        market,
+        route,
+        slippage.slippageBps,
+        slippage.minAmountOut,
+        getDefaultSigner(),
+        computeBudget
+      );
+      return res.status(200).json({
+        success: true,
+        message: 'Multi-hop swap executed successfully',
+        swap: {
+          transactionIds: routeExecution.signatures,
+          fromToken,
+          toToken,
+          amountIn: routeExecution.amountIn.toString(),
+          amountOut: routeExecution.amountOut.toString(),
+          route: serializeRoute(route),
+          status: settledStatus(),
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    if (owner) {
+      const unsignedSwap = await buildSwapTransaction(market, {
+        inputMint: fromMint,
+        outputMint: toMint,
+        amount: swapAmount,
+        owner,
+        mode,
+        slippageBps: slippage.slippageBps,
+        minAmountOut: slippage.minAmountOut,
+        nativeEth: nativeEth === true,
+        computeBudget
+      });
+      const { quote } = unsignedSwap;
+
+      return res.status(200).json({
+        success: true,
+        message: 'Swap transaction built, sign it and send it to /api/submit',
+        ...serializeUnsignedTransaction(unsignedSwap.unsigned),
+        swap: {
+          fromToken,
+          toToken,
+          mode: quote.mode,
+          amountIn: quote.amountIn.toString(),
+          maxAmountIn: quote.maxAmountIn.toString(),
+          estimatedAmountOut: quote.amountOut.toString(),
+          pool: {
+            address: quote.pool.address.toBase58(),
+            fee: quote.pool.pool.fee.toString(),
+            xToY: quote.xToY
+          },
+          priceAfterSwap: quote.priceAfterSwap.toString(),
+          slippageBps: slippage.slippageBps,
+          quotesConsidered: unsignedSwap.quotesConsidered,
+          sizing: sizing ? formatSizingStrategy(sizing.strategy) : undefined,
+          maxNotionalUsd: sizing?.maxNotionalUsd,
+          nativeEth: nativeEth === true,
+          status: 'unsigned'
+        }
+      });
+    }
+
+    const result = await swap({
+      inputMint: fromMint,
+      outputMint: toMint,
+      amount: swapAmount,
+      mode,
+      slippageBps: slippage.slippageBps,
+      minAmountOut: slippage.minAmountOut,
+      nativeEth: nativeEth === true,
+      computeBudget,
+      market
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Swap executed successfully',
+      swap: {
+        transactionId: result.signature,
+        fromToken,
+        toToken,
+        mode: result.mode,
+        amountIn: result.amountIn.toString(),
+        maxAmountIn: result.maxAmountIn.toString(),
+        estimatedAmountOut: result.amountOut.toString(),
+        pool: {
+          address: result.pool.toBase58(),
+          fee: result.fee.toString(),
+          xToY: result.xToY
+        },
+        priceAfterSwap: result.priceAfterSwap.toString(),
+        slippageBps: result.slippageBps,
+        sizing: sizing ? formatSizingStrategy(sizing.strategy) : undefined,
+        maxNotionalUsd: sizing?.maxNotionalUsd,
+        nativeEth: nativeEth === true,
+        // Amounts read back from the confirmed transaction, null if it couldn't be read
+        actual: result.reconciliation ? serializeReconciliation(result.reconciliation) : null,
+        // Dry run filled with the quoted amounts, its simulation couldn't run
+        estimated: result.estimated === true,
+        status: settledStatus(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error processing swap:', error);
+    if (error instanceof MinAmountOutError) {
+      return res.status(422).json({
+        error: 'Unprocessable Entity',
+        message: error.message
+      });
+    }
+    if (error instanceof TransactionFailedError) {
+      return res.status(422).json(serializeTransactionFailure(error));
+    }
+    if (error instanceof RoutePartiallyExecutedError) {
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: error.message,
+        partial: serializePartialRoute(error.execution)
+      });
+    }
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to process swap'
+    });
+  }
+});
+
+// POST endpoint to wrap native ETH into WSOL
+// amount is expressed in SOL, publicKey returns an unsigned transaction for that wallet
+app.post('/api/wrap', async (req: Request, res: Response) => {
+  try {
+    const amountInSol = Number(req.body.amount);
+    let owner: PublicKey | undefined;
+    let computeBudget: ComputeBudgetOptions;
+    try {
+      owner = parsePublicKey(req.body);
+      computeBudget = parseComputeBudgetOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid request'
+      });
+    }
+
+    if (!(amountInSol > 0)) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'amount must be a positive number of SOL'
+      });
+    }
+
+    if (owner) {
+      const unsigned = await buildWrapTransaction(amountInSol, owner, computeBudget);
+      return res.status(200).json({
+        success: true,
+        message: 'Wrap transaction built, sign it and send it to /api/submit',
+        ...serializeUnsignedTransaction(unsigned)
+      });
+    }
+
+    const associatedTokenAccount = await wrapSol(amountInSol, undefined, computeBudget);
+    res.status(200).json({
+      success: true,
+      message: 'SOL wrapped successfully',
+      wrap: {
+        publicKey: getDefaultSigner().publicKey.toBase58(),
+        associatedTokenAccount: associatedTokenAccount.toBase58(),
+        amountInSol,
+        status: settledStatus(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error wrapping SOL:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to wrap SOL'
+    });
+  }
+});
+
+// POST endpoint to create an associated token account
+// token can be a registered symbol or a mint address, publicKey returns an unsigned transaction
+app.post('/api/ata', async (req: Request, res: Response) => {
+  try {
+    let owner: PublicKey | undefined;
+    let mint: PublicKey;
+    let computeBudget: ComputeBudgetOptions;
+    try {
+      owner = parsePublicKey(req.body);
+      computeBudget = parseComputeBudgetOptions(req.body);
+      if (!req.body.token) {
+        throw new Error('token is required');
+      }
+      mint = (await resolveTokenInput(connection, String(req.body.token))).mint;
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid request'
+      });
+    }
+
+    if (owner) {
+      const unsigned = await buildCreateAccountTransaction(mint, owner, computeBudget);
+      return res.status(200).json({
+        success: true,
+        message: 'Token account transaction built, sign it and send it to /api/submit',
+        ...serializeUnsignedTransaction(unsigned)
+      });
+    }
+
+    await createAssociatedTokenAccount(mint, undefined, computeBudget);
+    res.status(200).json({
+      success: true,
+      message: 'Token account ready',
+      account: {
+        publicKey: getDefaultSigner().publicKey.toBase58(),
+        mint: mint.toBase58()
+      }
+    });
+  } catch (error) {
+    console.error('Error creating token account:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to create token account'
+    });
+  }
+});
+
+// POST endpoint to unwrap all WSOL back into native ETH
+// publicKey returns an unsigned transaction for that wallet
+app.post('/api/unwrap', async (req: Request, res: Response) => {
+  try {
+    let owner: PublicKey | undefined;
+    let computeBudget: ComputeBudgetOptions;
+    try {
+      owner = parsePublicKey(req.body);
+      computeBudget = parseComputeBudgetOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error instanceof Error ? error.message : 'Invalid request'
+      });
+    }
+
+    if (owner) {
+      const unsigned = await buildUnwrapTransaction(owner, computeBudget);
+      return res.status(200).json({
+        success: true,
+        message: 'Unwrap transaction built, sign it and send it to /api/submit',
+        ...serializeUnsignedTransaction(unsigned)
+      });
+    }
+
+    const result = await unwrapSol(undefined, computeBudget);
+
+    res.status(200).json({
+      success: true,
+      message: 'WSOL unwrapped successfully',
+      unwrap: {
+        transactionId: result.signature,
+        publicKey: getDefaultSigner().publicKey.toBase58(),
+        lamports: result.lamports.toString(),
+        amountInSol: result.lamports.toNumber() / LAMPORTS_PER_SOL,
+        status: settledStatus(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error unwrapping SOL:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to unwrap SOL'
+    });
+  }
+});
+// POST endpoint to broadcast a transaction signed by the wallet and wait for confirmation
+app.post('/api/submit', async (req: Request, res: Response) => {
+  const { transaction, lastValidBlockHeight } = req.body;
+
+  if (!transaction || typeof transaction !== 'string') {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'transaction must be a base64 signed transaction'
+    });
+  }
+  if (lastValidBlockHeight !== undefined && !Number.isInteger(Number(lastValidBlockHeight))) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'lastValidBlockHeight must be an integer'
+    });
+  }
+
+  try {
+    const signature = await submitSignedTransaction(
+      transaction,
+      lastValidBlockHeight === undefined ? undefined : Number(lastValidBlockHeight)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: isDryRun() ? 'Transaction simulated, nothing was sent' : 'Transaction confirmed',
+      transactionId: signature,
+      status: settledStatus(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error submitting transaction:', error);
+    if (error instanceof InvalidSignedTransactionError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: error.message
+      });
+    }
+    if (error instanceof TransactionFailedError) {
+      return res.status(422).json(serializeTransactionFailure(error));
+    }
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to submit transaction'
+    });
+  }
+});
+
+// POST endpoint to place a limit, take-profit or stop-loss order
+// amount is the input to sell in base units, triggerPrice the price of one whole fromToken in toToken
+// limit and takeProfit orders fire when the price reaches triggerPrice or more, stopLoss at triggerPrice or less,
+// condition ("above" or "below") overrides that for limit orders
+app.post('/api/orders', async (req: Request, res: Response) => {
+  const { kind, fromToken, toToken, amount, triggerPrice, condition, nativeEth } = req.body;
+  let slippage: SlippageOptions;
+  try {
+    slippage = parseSlippageOptions(req.body);
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid slippage'
+    });
+  }
+
+  if (!kind || !fromToken || !toToken || !amount || triggerPrice === undefined) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'kind, fromToken, toToken, amount and triggerPrice are required'
+    });
+  }
+  if (!isOrderKind(String(kind))) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'kind must be limit, takeProfit or stopLoss'
+    });
+  }
+  if (condition !== undefined && (kind !== 'limit' || (condition !== 'above' && condition !== 'below'))) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'condition must be above or below, and only applies to limit orders'
+    });
+  }
+  if (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero()) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'amount must be a positive integer in base units'
+    });
+  }
+
+  let fromMint: PublicKey;
+  let toMint: PublicKey;
+  try {
+    fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+    toMint = (await resolveTokenInput(connection, String(toToken))).mint;
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Unknown token'
+    });
+  }
+
+  try {
+    const order = await createOrder({
+      kind,
+      inputMint: fromMint,
+      outputMint: toMint,
+      amount: new BN(String(amount)),
+      triggerPrice: Number(triggerPrice),
+      condition,
+      slippageBps: slippage.slippageBps,
+      minAmountOut: slippage.minAmountOut,
+      nativeEth: nativeEth === true
+    });
+    res.status(201).json({
+      success: true,
+      order
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Failed to create order'
+    });
+  }
+});
+
+// List orders, newest first, filtered with ?status=pending|executing|filled|failed|cancelled
+app.get('/api/orders', (req: Request, res: Response) => {
+  const statuses: OrderStatus[] = ['pending', 'executing', 'filled', 'failed', 'cancelled'];
+  const status = req.query.status as OrderStatus | undefined;
+  if (status !== undefined && !statuses.includes(status)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: `status must be one of ${statuses.join(', ')}`
+    });
+  }
+
+  const orders = listOrders(status);
+  res.status(200).json({
+    success: true,
+    count: orders.length,
+    orders
+  });
+});
+
+app.get('/api/orders/:id', (req: Request, res: Response) => {
+  const order = getOrder(req.params.id);
+  if (!order) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Order ${req.params.id} not found`
+    });
+  }
+  res.status(200).json({
+    success: true,
+    order
+  });
+});
+
+// Cancel a pending order
+app.delete('/api/orders/:id', (req: Request, res: Response) => {
+  let order: Order | undefined;
+  try {
+    order = cancelOrder(req.params.id);
+  } catch (error) {
+    return res.status(409).json({
+      error: 'Conflict',
+      message: error instanceof Error ? error.message : 'Order can\'t be cancelled'
+    });
+  }
+  if (!order) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Order ${req.params.id} not found`
+    });
+  }
+  res.status(200).json({
+    success: true,
+    order
+  });
+});
+
+// POST endpoint to schedule a recurring swap of amount fromToken (base units) into toToken
+// cron is a five-field UTC expression such as "0 9 * * 1-5", maxPriceImpactBps skips pools that would move the price more
+app.post('/api/schedules', async (req: Request, res: Response) => {
+  const { name, cron, fromToken, toToken, amount, slippageBps, maxPriceImpactBps, nativeEth } = req.body;
+
+  if (!cron || !fromToken || !toToken || !amount) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'cron, fromToken, toToken and amount are required'
+    });
+  }
+  if (!/^\d+$/.test(String(amount)) || new BN(String(amount)).isZero()) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'amount must be a positive integer in base units'
+    });
+  }
+
+  let fromMint: PublicKey;
+  let toMint: PublicKey;
+  try {
+    fromMint = (await resolveTokenInput(connection, String(fromToken))).mint;
+    toMint = (await resolveTokenInput(connection, String(toToken))).mint;
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Unknown token'
+    });
+  }
+
+  try {
+    const schedule = createSchedule({
+      name: name === undefined ? undefined : String(name),
+      cron: String(cron),
+      inputMint: fromMint,
+      outputMint: toMint,
+      amount: new BN(String(amount)),
+      slippageBps: slippageBps === undefined ? undefined : Number(slippageBps),
+      maxPriceImpactBps: maxPriceImpactBps === undefined ? undefined : Number(maxPriceImpactBps),
+      nativeEth: nativeEth === true
+    });
+    res.status(201).json({
+      success: true,
+      schedule
+    });
+  } catch (error) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Failed to create schedule'
+    });
+  }
+});
+
+app.get('/api/schedules', (req: Request, res: Response) => {
+  const schedules = listSchedules();
+  res.status(200).json({
+    success: true,
+    count: schedules.length,
+    schedules
+  });
+});
+
+// A schedule with its recent runs, oldest first
+app.get('/api/schedules/:id', (req: Request, res: Response) => {
+  const schedule = getSchedule(req.params.id);
+  if (!schedule) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Schedule ${req.params.id} not found`
+    });
+  }
+  res.status(200).json({
+    success: true,
+    schedule
+  });
+});
+
+// Pause or resume a schedule with { enabled: false | true }
+app.patch('/api/schedules/:id', (req: Request, res: Response) => {
+  const { enabled } = req.body;
+  if (typeof enabled !== 'boolean') {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'enabled must be true or false'
+    });
+  }
+
+  const schedule: Schedule | undefined = setScheduleEnabled(req.params.id, enabled);
+  if (!schedule) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Schedule ${req.params.id} not found`
+    });
+  }
+  res.status(200).json({
+    success: true,
+    schedule
+  });
+});
+
+app.delete('/api/schedules/:id', (req: Request, res: Response) => {
+  if (!deleteSchedule(req.params.id)) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `Schedule ${req.params.id} not found`
+    });
+  }
+  res.status(200).json({
+    success: true
+  });
+});
+
+// USD value of a wallet's native ETH and every token account, with a total
+app.get('/api/portfolio/:publicKey', async (req: Request, res: Response) => {
+  let owner: PublicKey;
+  try {
+    owner = parsePublicKey({ publicKey: req.params.publicKey })!;
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid publicKey'
+    });
+  }
+
+  try {
+    const market = await getMarket();
+    const portfolio = await getPortfolio(market, owner, {
+      includeEmpty: req.query.includeEmpty === 'true'
+    });
+    res.status(200).json({
+      success: true,
+      portfolio,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error reading portfolio:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error instanceof Error ? error.message : 'Failed to read portfolio'
+    });
+  }
+});
+
+// Paper balances of a wallet in dry-run mode, balances never read yet still follow the chain
+app.get('/api/paper/:publicKey', (req: Request, res: Response) => {
+  let owner: PublicKey;
+  try {
+    owner = parsePublicKey({ publicKey: req.params.publicKey })!;
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid publicKey'
+    });
+  }
+
+  const wallet = getPaperWallet(owner);
+  res.status(200).json({
+    success: true,
+    dryRun: isDryRun(),
+    publicKey: owner.toBase58(),
+    lamports: wallet?.lamports ?? null,
+    tokens: wallet?.tokens ?? {},
+    updatedAt: wallet?.updatedAt ?? null
+  });
+});
+
+// Drop a wallet's paper balances, so they start again from the chain
+app.delete('/api/paper/:publicKey', (req: Request, res: Response) => {
+  let owner: PublicKey;
+  try {
+    owner = parsePublicKey({ publicKey: req.params.publicKey })!;
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid publicKey'
+    });
+  }
+
+  if (!resetPaperWallet(owner)) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `No paper balances for ${owner.toBase58()}`
+    });
+  }
+  res.status(200).json({
+    success: true
+  });
+});
 
 // 404 handler
 app.use('*', (req: Request, res: Response) => {
@@ -335,6 +1463,12 @@ app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`Express server is running on http://localhost:${PORT}`);
+  // Load every pool up front so the first quote doesn't wait for it
+  getMarket()
+    .then(getAllPoolsWithAddresses)
+    .catch((error) => console.error('Failed to load pools:', error));
+  startOrderEngine();
+  startScheduler();
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,272 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import fs from "fs";
+import path from "path";
+
+import { JOURNAL_PATH } from "./config";
+import { isUsdStablecoin } from "./pricing";
+import { resolveToken } from "./token-registry";
+import type { SendFailureKind } from "./transaction-sender";
+
+// Amounts are base units written as strings, mints and wallets as base58
+export interface QuoteEntry {
+  type: "quote";
+  pool: string;
+  inputMint: string;
+  outputMint: string;
+  mode: string;
+  amountIn: string;
+  amountOut: string;
+  fee: string;
+  priceImpact: string;
+  slippageBps: number;
+  status: string;
+}
+
+export interface SwapEntry {
+  type: "swap";
+  // "simulated" for dry runs, which never reach the chain, see paper.ts
+  status: "confirmed" | "failed" | "simulated";
+  wallet: string;
+  pool: string;
+  inputMint: string;
+  outputMint: string;
+  mode: string;
+  amountIn: string;
+  amountOut: string;
+  // Swap fee, in the input token
+  fee: string;
+  slippageBps: number;
+  // Read back from the confirmed transaction, amountIn and amountOut are quoted
+  actualAmountIn?: string;
+  actualAmountOut?: string;
+  realizedSlippageBps?: number;
+  // Dry run applied with the quoted amounts, its simulation couldn't run
+  estimated?: boolean;
+  signature?: string;
+  error?: string;
+  failure?: SendFailureKind;
+}
+
+export interface WrapEntry {
+  type: "wrap" | "unwrap";
+  status: "confirmed" | "failed" | "simulated";
+  wallet: string;
+  lamports: string;
+  // Dry run applied with the expected amounts, its simulation couldn't run
+  estimated?: boolean;
+  signature?: string;
+  error?: string;
+}
+
+export interface AtaEntry {
+  type: "ata";
+  status: "confirmed" | "failed" | "simulated";
+  wallet: string;
+  mint: string;
+  account: string;
+  signature?: string;
+  error?: string;
+}
+
+export type JournalRecord = QuoteEntry | SwapEntry | WrapEntry | AtaEntry;
+
+export type JournalEntry = JournalRecord & { timestamp: string };
+
+export interface TradeFilter {
+  type?: JournalEntry["type"];
+  // Entries of this wallet, quotes have none and are left out
+  wallet?: string;
+  // Entries involving this mint
+  mint?: string;
+  // Only entries at or after this time
+  since?: Date;
+  // Most recent entries to return
+  limit?: number;
+}
+
+// Realized P&L of the swaps between two tokens, in the quote token
+export interface PairPnl {
+  base: string;
+  quote: string;
+  baseSymbol: string;
+  quoteSymbol: string;
+  trades: number;
+  bought: number;
+  sold: number;
+  spent: number;
+  received: number;
+  // Base token still held from these trades, and what it cost
+  openPosition: number;
+  openCost: number;
+  averageCost: number | null;
+  realizedPnl: number;
+  // Base token sold beyond what these trades bought, so without a cost basis
+  unmatchedSold: number;
+}
+
+/**
+ * Appends an entry to the journal. Failing to write is logged rather than
+ * thrown, the trade it records has already happened.
+ */
+export function recordJournalEntry(
+  record: JournalRecord,
+  journalPath: string = JOURNAL_PATH
+) {
+  const entry: JournalEntry = {
+    timestamp: new Date().toISOString(),
+    ...record,
+  };
+  try {
+    fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+    fs.appendFileSync(journalPath, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    console.error(`Failed to write ${record.type} to the journal:`, error);
+  }
+}
+
+// Every journal entry, oldest first. Unreadable lines are skipped.
+export function readJournal(
+  journalPath: string = JOURNAL_PATH
+): JournalEntry[] {
+  if (!fs.existsSync(journalPath)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of fs.readFileSync(journalPath, "utf-8").split("\n")) {
+    if (line.trim() === "") {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      console.error("Skipping unreadable journal line:", line);
+    }
+  }
+  return entries;
+}
+
+function involvesMint(entry: JournalEntry, mint: string): boolean {
+  switch (entry.type) {
+    case "quote":
+    case "swap":
+      return entry.inputMint === mint || entry.outputMint === mint;
+    case "ata":
+      return entry.mint === mint;
+    default:
+      return mint === NATIVE_MINT.toBase58();
+  }
+}
+
+// Journal entries matching a filter, most recent first
+export function getTrades(
+  filter: TradeFilter = {},
+  journalPath: string = JOURNAL_PATH
+): JournalEntry[] {
+  const trades = readJournal(journalPath)
+    .filter(
+      (entry) =>
+        (!filter.type || entry.type === filter.type) &&
+        (!filter.wallet ||
+          ("wallet" in entry && entry.wallet === filter.wallet)) &&
+        (!filter.mint || involvesMint(entry, filter.mint)) &&
+        (!filter.since || new Date(entry.timestamp) >= filter.since)
+    )
+    .reverse();
+  return filter.limit === undefined ? trades : trades.slice(0, filter.limit);
+}
+
+// Which side of a pair prices the other: a USD stablecoin, then ETH, then the lower mint
+function pickQuoteMint(a: string, b: string): string {
+  for (const isQuote of [
+    (mint: string) => isUsdStablecoin(new PublicKey(mint)),
+    (mint: string) => mint === NATIVE_MINT.toBase58(),
+  ]) {
+    if (isQuote(a) !== isQuote(b)) {
+      return isQuote(a) ? a : b;
+    }
+  }
+  return a < b ? a : b;
+}
+
+/**
+ * Realized P&L per token pair from the confirmed swaps in the journal, using
+ * the average cost of the base token bought. Amounts are in whole tokens.
+ */
+export async function computePnl(
+  connection: Connection,
+  entries: JournalEntry[]
+): Promise<PairPnl[]> {
+  const pairs = new Map<string, PairPnl>();
+  // Token decimals are cached by the registry after the first lookup
+  const toTokens = async (amount: string, mint: string) =>
+    Number(amount) /
+    10 ** (await resolveToken(connection, new PublicKey(mint))).decimals;
+
+  for (const entry of entries) {
+    if (entry.type !== "swap" || entry.status !== "confirmed") {
+      continue;
+    }
+
+    const quote = pickQuoteMint(entry.inputMint, entry.outputMint);
+    const base = quote === entry.inputMint ? entry.outputMint : entry.inputMint;
+    const key = `${base}/${quote}`;
+    let pnl = pairs.get(key);
+    if (!pnl) {
+      const baseToken = await resolveToken(connection, new PublicKey(base));
+      const quoteToken = await resolveToken(connection, new PublicKey(quote));
+      pnl = {
+        base,
+        quote,
+        baseSymbol: baseToken.symbol,
+        quoteSymbol: quoteToken.symbol,
+        trades: 0,
+        bought: 0,
+        sold: 0,
+        spent: 0,
+        received: 0,
+        openPosition: 0,
+        openCost: 0,
+        averageCost: null,
+        realizedPnl: 0,
+        unmatchedSold: 0,
+      };
+      pairs.set(key, pnl);
+    }
+    pnl.trades++;
+
+    // Prefer what the transaction actually did over the quote
+    const amountIn = await toTokens(
+      entry.actualAmountIn ?? entry.amountIn,
+      entry.inputMint
+    );
+    const amountOut = await toTokens(
+      entry.actualAmountOut ?? entry.amountOut,
+      entry.outputMint
+    );
+    if (entry.inputMint === quote) {
+      // Bought the base token
+      pnl.bought += amountOut;
+      pnl.spent += amountIn;
+      pnl.openPosition += amountOut;
+      pnl.openCost += amountIn;
+    } else {
+      // Sold the base token, only what was bought here has a cost basis
+      pnl.sold += amountIn;
+      pnl.received += amountOut;
+      const matched = Math.min(amountIn, pnl.openPosition);
+      if (matched > 0) {
+        const cost = (pnl.openCost * matched) / pnl.openPosition;
+        pnl.realizedPnl += (amountOut * matched) / amountIn - cost;
+        pnl.openPosition -= matched;
+        pnl.openCost -= cost;
+      }
+      pnl.unmatchedSold += amountIn - matched;
+    }
+    pnl.averageCost =
+      pnl.openPosition > 0 ? pnl.openCost / pnl.openPosition : null;
+  }
+
+  return Array.from(pairs.values());
+}
@@ -0,0 +1,82 @@
+import { PublicKey } from "@solana/web3.js";
+import { getMarketAddress, Network } from "@invariant-labs/sdk-eclipse";
+import path from "path";
+
+import { NETWORK, RPC_URLS } from "./config";
+
+export type NetworkName = "mainnet" | "testnet" | "devnet" | "localnet";
+
+export interface NetworkConfig {
+  name: NetworkName;
+  invariantNetwork: Network;
+  // Invariant program, can be overridden with INVARIANT_PROGRAM_ID
+  programId: PublicKey;
+  // Tried in order, the first one is used until it fails
+  rpcUrls: string[];
+  // Token registry holding the network's mints
+  tokenRegistryPath: string;
+}
+
+const NETWORKS: Record<
+  NetworkName,
+  { invariantNetwork: Network; rpcUrls: string[]; tokenRegistry: string }
+> = {
+  mainnet: {
+    invariantNetwork: Network.MAIN,
+    rpcUrls: ["https://mainnetbeta-rpc.eclipse.xyz"],
+    tokenRegistry: "tokens.json",
+  },
+  testnet: {
+    invariantNetwork: Network.TEST,
+    rpcUrls: ["https://testnet.dev2.eclipsenetwork.xyz"],
+    tokenRegistry: "tokens.testnet.json",
+  },
+  devnet: {
+    invariantNetwork: Network.DEV,
+    rpcUrls: ["https://staging-rpc.dev2.eclipsenetwork.xyz"],
+    tokenRegistry: "tokens.devnet.json",
+  },
+  localnet: {
+    invariantNetwork: Network.LOCAL,
+    rpcUrls: ["http://127.0.0.1:8899"],
+    tokenRegistry: "tokens.localnet.json",
+  },
+};
+
+function isNetworkName(name: string): name is NetworkName {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, name);
+}
+
+/**
+ * Builds the settings for a network. RPC_URLS and INVARIANT_PROGRAM_ID
+ * override the network's defaults.
+ */
+export function resolveNetworkConfig(name: string): NetworkConfig {
+  if (!isNetworkName(name)) {
+    throw new Error(
+      `Unknown network "${name}", expected ${Object.keys(NETWORKS).join(", ")}`
+    );
+  }
+  const defaults = NETWORKS[name];
+
+  return {
+    name,
+    invariantNetwork: defaults.invariantNetwork,
+    programId: new PublicKey(
+      process.env.INVARIANT_PROGRAM_ID ||
+        getMarketAddress(defaults.invariantNetwork)
+    ),
+    rpcUrls: RPC_URLS.length > 0 ? RPC_URLS : defaults.rpcUrls,
+    tokenRegistryPath: path.join(__dirname, defaults.tokenRegistry),
+  };
+}
+
+let networkConfig: NetworkConfig | null = null;
+
+// Settings of the network picked with ECLIPSE_NETWORK
+export function getNetworkConfig(): NetworkConfig {
+  if (!networkConfig) {
+    networkConfig = resolveNetworkConfig(NETWORK);
+  }
+  return networkConfig;
+}
@@ -0,0 +1,97 @@
+import { ETH_USDC_FIXTURE_PATH, removeTestData, USDC_MINT } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, test } from "node:test";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import { ETH_MINT } from "./app";
+import { ORDER_MAX_ATTEMPTS } from "./config";
+import { createFixtureMarket, loadFixture } from "./fixtures";
+import {
+  cancelOrder,
+  checkOrders,
+  createOrder,
+  getOrder,
+  listOrders,
+} from "./orders";
+import { stopPoolCache } from "./pool-cache";
+
+const ONE_ETH = new BN(1_000_000_000);
+
+let market: Market;
+
+// A limit sell of ETH that fires at once, the fixture prices ETH near 3000 USDC
+function createFiringOrder(amount: BN, minAmountOut?: BN) {
+  return createOrder({
+    kind: "limit",
+    inputMint: ETH_MINT,
+    outputMint: USDC_MINT,
+    amount,
+    triggerPrice: 1000,
+    minAmountOut,
+  });
+}
+
+before(async () => {
+  market = await createFixtureMarket(loadFixture(ETH_USDC_FIXTURE_PATH));
+});
+
+afterEach(() => {
+  for (const order of listOrders("pending")) {
+    cancelOrder(order.id);
+  }
+});
+
+after(() => {
+  stopPoolCache();
+  removeTestData();
+});
+
+describe("checkOrders", () => {
+  test("keeps an order pending when its quote is below minimum", async () => {
+    const order = await createFiringOrder(ONE_ETH, new BN(10_000_000_000));
+    await checkOrders(market);
+
+    const checked = getOrder(order.id)!;
+    assert.equal(checked.status, "pending");
+    assert.equal(checked.attempts, 1);
+    assert.match(checked.error ?? "", /below minimum/);
+    assert.ok(checked.lastPrice! > 2900 && checked.lastPrice! < 3100);
+  });
+
+  test("keeps an order pending when no pool can quote it", async () => {
+    const order = await createFiringOrder(ONE_ETH.muln(1000));
+    await checkOrders(market);
+
+    const checked = getOrder(order.id)!;
+    assert.equal(checked.status, "pending");
+    assert.match(checked.error ?? "", /No pool could simulate/);
+  });
+
+  test("fails an order once it used up its attempts", async () => {
+    const order = await createFiringOrder(ONE_ETH, new BN(10_000_000_000));
+    for (let i = 0; i < ORDER_MAX_ATTEMPTS; i++) {
+      await checkOrders(market);
+    }
+
+    const checked = getOrder(order.id)!;
+    assert.equal(checked.status, "failed");
+    assert.equal(checked.attempts, ORDER_MAX_ATTEMPTS);
+  });
+
+  test("leaves an order pending while its trigger isn't reached", async () => {
+    const order = await createOrder({
+      kind: "stopLoss",
+      inputMint: ETH_MINT,
+      outputMint: USDC_MINT,
+      amount: ONE_ETH,
+      triggerPrice: 1000,
+    });
+    await checkOrders(market);
+
+    const checked = getOrder(order.id)!;
+    assert.equal(checked.status, "pending");
+    assert.equal(checked.attempts, 0);
+  });
+});
@@ -0,0 +1,358 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import {
+  connection,
+  getAllPoolsWithAddresses,
+  getMarket,
+  PoolWithAddress,
+  swap,
+} from "./app";
+import {
+  ORDER_MAX_ATTEMPTS,
+  ORDER_POLL_INTERVAL_MS,
+  ORDERS_PATH,
+} from "./config";
+import { getTokenPriceInPool } from "./pricing";
+import { applySlippage, resolveSlippageBps } from "./slippage";
+import { resolveToken } from "./token-registry";
+import { mayHaveLanded, TransactionFailedError } from "./transaction-sender";
+
+// limit and takeProfit fire when the price rises to the trigger, stopLoss when it falls to it
+export type OrderKind = "limit" | "takeProfit" | "stopLoss";
+
+export type OrderCondition = "above" | "below";
+
+export type OrderStatus =
+  | "pending"
+  | "executing"
+  | "filled"
+  | "failed"
+  | "cancelled";
+
+// Amounts are base units written as strings, mints as base58
+export interface Order {
+  id: string;
+  kind: OrderKind;
+  status: OrderStatus;
+  inputMint: string;
+  outputMint: string;
+  // Input to sell once the order fires
+  amount: string;
+  // Price of one whole input token in whole output tokens
+  triggerPrice: number;
+  condition: OrderCondition;
+  slippageBps: number;
+  minAmountOut?: string;
+  nativeEth: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // Latest pool price seen for the pair
+  lastPrice?: number;
+  // Swaps tried after the order fired
+  attempts: number;
+  signature?: string;
+  amountOut?: string;
+  error?: string;
+}
+
+export interface NewOrder {
+  kind: OrderKind;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: BN;
+  triggerPrice: number;
+  // Overrides the kind's default condition, for limit buys priced in the input token
+  condition?: OrderCondition;
+  slippageBps?: number;
+  minAmountOut?: BN;
+  nativeEth?: boolean;
+}
+
+const ORDER_KINDS: OrderKind[] = ["limit", "takeProfit", "stopLoss"];
+
+let orders: Order[] | null = null;
+let engineTimer: NodeJS.Timeout | null = null;
+let checking = false;
+
+export function isOrderKind(kind: string): kind is OrderKind {
+  return ORDER_KINDS.includes(kind as OrderKind);
+}
+
+// Orders from ORDERS_PATH, read on first use
+function loadOrders(): Order[] {
+  if (orders) {
+    return orders;
+  }
+  if (!fs.existsSync(ORDERS_PATH)) {
+    orders = [];
+    return orders;
+  }
+
+  try {
+    orders = JSON.parse(fs.readFileSync(ORDERS_PATH, "utf-8")) as Order[];
+  } catch (error) {
+    throw new Error(
+      `Failed to read orders at ${ORDERS_PATH}. Error: ` + error
+    );
+  }
+  // A swap cut short by a restart may have landed, never send it twice
+  for (const order of orders) {
+    if (order.status === "executing") {
+      updateOrder(order, {
+        status: "failed",
+        error: "Interrupted while executing, check the trade journal",
+      });
+    }
+  }
+  return orders;
+}
+
+// Writes every order through a temporary file, so a crash never leaves half a file
+function saveOrders() {
+  fs.mkdirSync(path.dirname(ORDERS_PATH), { recursive: true });
+  const temporaryPath = `${ORDERS_PATH}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(orders ?? [], null, 2));
+  fs.renameSync(temporaryPath, ORDERS_PATH);
+}
+
+function updateOrder(order: Order, changes: Partial<Order>) {
+  Object.assign(order, changes, { updatedAt: new Date().toISOString() });
+  saveOrders();
+}
+
+// Orders, newest first, optionally only those with a status
+export function listOrders(status?: OrderStatus): Order[] {
+  return loadOrders()
+    .filter((order) => !status || order.status === status)
+    .reverse();
+}
+
+export function getOrder(id: string): Order | undefined {
+  return loadOrders().find((order) => order.id === id);
+}
+
+/**
+ * Stores a pending order. Limit and take-profit orders default their minimum
+ * output to the trigger price less the slippage tolerance, so they never fill
+ * below it. Stop-losses sell into a falling price and only get the slippage
+ * limit of the swap itself.
+ */
+export async function createOrder(params: NewOrder): Promise<Order> {
+  const { kind, inputMint, outputMint, amount, triggerPrice } = params;
+  const slippageBps = resolveSlippageBps(params.slippageBps);
+
+  if (!isOrderKind(kind)) {
+    throw new Error(`kind must be one of ${ORDER_KINDS.join(", ")}`);
+  }
+  if (inputMint.equals(outputMint)) {
+    throw new Error("Cannot swap a token for itself");
+  }
+  if (amount.lten(0)) {
+    throw new Error("Order amount must be greater than 0");
+  }
+  if (!(triggerPrice > 0) || !Number.isFinite(triggerPrice)) {
+    throw new Error("triggerPrice must be a positive number");
+  }
+
+  let minAmountOut = params.minAmountOut;
+  if (!minAmountOut && kind !== "stopLoss") {
+    const inputDecimals = (await resolveToken(connection, inputMint)).decimals;
+    const outputDecimals = (await resolveToken(connection, outputMint))
+      .decimals;
+    const amountOutAtTrigger =
+      Number(amount.toString()) *
+      triggerPrice *
+      10 ** (outputDecimals - inputDecimals);
+    minAmountOut = applySlippage(
+      new BN(BigInt(Math.floor(amountOutAtTrigger)).toString()),
+      slippageBps
+    );
+  }
+
+  const now = new Date().toISOString();
+  const order: Order = {
+    id: crypto.randomUUID(),
+    kind,
+    status: "pending",
+    inputMint: inputMint.toBase58(),
+    outputMint: outputMint.toBase58(),
+    amount: amount.toString(),
+    triggerPrice,
+    condition:
+      params.condition ?? (kind === "stopLoss" ? "below" : "above"),
+    slippageBps,
+    minAmountOut: minAmountOut?.toString(),
+    nativeEth: params.nativeEth ?? false,
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+  };
+
+  loadOrders().push(order);
+  saveOrders();
+  return order;
+}
+
+/**
+ * Cancels a pending order
+ * @returns The cancelled order, undefined if there is no order with this id
+ * @throws if the order already fired or was cancelled
+ */
+export function cancelOrder(id: string): Order | undefined {
+  const order = getOrder(id);
+  if (!order) {
+    return undefined;
+  }
+  if (order.status !== "pending") {
+    throw new Error(`Order ${id} is ${order.status} and can't be cancelled`);
+  }
+  updateOrder(order, { status: "cancelled" });
+  return order;
+}
+
+/**
+ * Price of one whole input token in output tokens in the pair's deepest pool,
+ * like getUsdPrice, so a thin pool can neither fire nor hold back an order.
+ * Null when no pool trades the pair.
+ */
+async function getPairPrice(
+  pools: PoolWithAddress[],
+  inputMint: PublicKey,
+  outputMint: PublicKey
+): Promise<number | null> {
+  const pairPools = pools.filter(
+    ({ pool }) =>
+      (pool.tokenX.equals(inputMint) && pool.tokenY.equals(outputMint)) ||
+      (pool.tokenX.equals(outputMint) && pool.tokenY.equals(inputMint))
+  );
+  if (pairPools.length === 0) {
+    return null;
+  }
+
+  const deepest = pairPools.reduce((best, pool) =>
+    pool.pool.liquidity.gt(best.pool.liquidity) ? pool : best
+  );
+  return getTokenPriceInPool(deepest, inputMint);
+}
+
+function isTriggered(order: Order, price: number): boolean {
+  return order.condition === "above"
+    ? price >= order.triggerPrice
+    : price <= order.triggerPrice;
+}
+
+// Swaps a fired order. Failures before anything landed leave it pending for the next check, up to ORDER_MAX_ATTEMPTS.
+async function executeOrder(market: Market, order: Order) {
+  updateOrder(order, { status: "executing", attempts: order.attempts + 1 });
+  console.log(
+    `Order ${order.id} fired at ${order.lastPrice}, selling ${order.amount}`
+  );
+
+  try {
+    const result = await swap({
+      inputMint: new PublicKey(order.inputMint),
+      outputMint: new PublicKey(order.outputMint),
+      amount: new BN(order.amount),
+      slippageBps: order.slippageBps,
+      minAmountOut: order.minAmountOut
+        ? new BN(order.minAmountOut)
+        : undefined,
+      nativeEth: order.nativeEth,
+      market,
+    });
+    updateOrder(order, {
+      status: "filled",
+      signature: result.signature,
+      amountOut: (
+        result.reconciliation?.amountOut ?? result.amountOut
+      ).toString(),
+      error: undefined,
+    });
+    console.log(`Order ${order.id} filled: ${result.signature}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // No retry makes up for a wallet that can't pay, and a swap that may
+    // have landed must not be sent again. Anything raised before sending,
+    // e.g. a quote below minAmountOut or an RPC error, is tried again.
+    const final =
+      order.attempts >= ORDER_MAX_ATTEMPTS ||
+      (error instanceof TransactionFailedError &&
+        error.outcome.kind === "insufficientFunds") ||
+      mayHaveLanded(error);
+    updateOrder(order, {
+      status: final ? "failed" : "pending",
+      error: message,
+    });
+    console.log(`Order ${order.id} failed: ${message}`);
+  }
+}
+
+/**
+ * Reads the pool prices of every pending order's pair and executes the
+ * orders whose trigger is reached, one at a time
+ */
+export async function checkOrders(market: Market) {
+  const pending = loadOrders().filter((order) => order.status === "pending");
+  if (pending.length === 0) {
+    return;
+  }
+
+  const pools = await getAllPoolsWithAddresses(market);
+  for (const order of pending) {
+    // Cancelled while an earlier order was executing
+    if (order.status !== "pending") {
+      continue;
+    }
+
+    const price = await getPairPrice(
+      pools,
+      new PublicKey(order.inputMint),
+      new PublicKey(order.outputMint)
+    );
+    if (price === null) {
+      continue;
+    }
+    order.lastPrice = price;
+
+    if (isTriggered(order, price)) {
+      await executeOrder(market, order);
+    }
+  }
+  saveOrders();
+}
+
+// Checks pending orders every intervalMs until stopOrderEngine is called
+export function startOrderEngine(intervalMs: number = ORDER_POLL_INTERVAL_MS) {
+  if (engineTimer) {
+    return;
+  }
+
+  loadOrders();
+  engineTimer = setInterval(async () => {
+    // Skip a tick rather than run two checks over the same orders
+    if (checking) {
+      return;
+    }
+    checking = true;
+    try {
+      await checkOrders(await getMarket());
+    } catch (error) {
+      console.error("Failed to check orders:", error);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+  console.log(`Order engine checking prices every ${intervalMs}ms`);
+}
+
+export function stopOrderEngine() {
+  if (engineTimer) {
+    clearInterval(engineTimer);
+    engineTimer = null;
+  }
+}
@@ -0,0 +1,395 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import BN from "bn.js";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { DRY_RUN, PAPER_BALANCES_PATH } from "./config";
+import { getTokenProgram } from "./token-registry";
+import {
+  classifyTransactionError,
+  TransactionFailedError,
+} from "./transaction-sender";
+
+// Signatures of simulated transactions start with this, so they are never mistaken for real ones
+export const DRY_RUN_SIGNATURE_PREFIX = "dry-run-";
+
+// Token account amount, the same in Token-2022 before any extension data
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+// A wallet's paper balances in base units, seeded from the chain on first read
+export interface PaperWallet {
+  // Native ETH in lamports
+  lamports?: string;
+  // Token balances by mint
+  tokens: Record<string, string>;
+  updatedAt: string;
+}
+
+// A change to a paper balance, mint null for native ETH
+export interface PaperChange {
+  mint: PublicKey | null;
+  delta: BN;
+}
+
+// What a dry run did to a wallet's paper balances
+export interface PaperFill {
+  signature: string;
+  slot: number;
+  changes: PaperChange[];
+  // The simulation failed and the expected changes were applied instead, so
+  // the amounts are the caller's estimate rather than simulated
+  estimated: boolean;
+}
+
+export interface DryRunResult {
+  signature: string;
+  // Slot the simulation ran at
+  slot: number;
+  logs: string[];
+  unitsConsumed?: number;
+  // State of the watched accounts after the simulation, null when they don't exist
+  accounts: Array<{ lamports: number; data: Buffer } | null>;
+}
+
+let dryRun = DRY_RUN;
+let wallets: Record<string, PaperWallet> | null = null;
+
+// Whether transactions are simulated on paper instead of sent, DRY_RUN by default
+export function isDryRun(): boolean {
+  return dryRun;
+}
+
+export function setDryRun(enabled: boolean) {
+  dryRun = enabled;
+}
+
+export function isDryRunSignature(signature: string): boolean {
+  return signature.startsWith(DRY_RUN_SIGNATURE_PREFIX);
+}
+
+// Paper wallets from PAPER_BALANCES_PATH, read on first use
+function loadWallets(): Record<string, PaperWallet> {
+  if (wallets) {
+    return wallets;
+  }
+  if (!fs.existsSync(PAPER_BALANCES_PATH)) {
+    wallets = {};
+    return wallets;
+  }
+
+  try {
+    wallets = JSON.parse(fs.readFileSync(PAPER_BALANCES_PATH, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read paper balances at ${PAPER_BALANCES_PATH}. Error: ` +
+        error
+    );
+  }
+  return wallets!;
+}
+
+// Writes every wallet through a temporary file, so a crash never leaves half a file
+function saveWallets() {
+  fs.mkdirSync(path.dirname(PAPER_BALANCES_PATH), { recursive: true });
+  const temporaryPath = `${PAPER_BALANCES_PATH}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(wallets ?? {}, null, 2));
+  fs.renameSync(temporaryPath, PAPER_BALANCES_PATH);
+}
+
+function getWallet(owner: PublicKey): PaperWallet {
+  const all = loadWallets();
+  const key = owner.toBase58();
+  if (!all[key]) {
+    all[key] = { tokens: {}, updatedAt: new Date().toISOString() };
+  }
+  return all[key];
+}
+
+function readPaperEntry(
+  wallet: PaperWallet,
+  mint: PublicKey | null
+): string | undefined {
+  return mint ? wallet.tokens[mint.toBase58()] : wallet.lamports;
+}
+
+function writePaperEntry(
+  wallet: PaperWallet,
+  mint: PublicKey | null,
+  amount: BN
+) {
+  if (mint) {
+    wallet.tokens[mint.toBase58()] = amount.toString();
+  } else {
+    wallet.lamports = amount.toString();
+  }
+  wallet.updatedAt = new Date().toISOString();
+}
+
+export function getPaperWallet(owner: PublicKey): PaperWallet | undefined {
+  return loadWallets()[owner.toBase58()];
+}
+
+// Whether the wallet holds a paper balance of the mint, i.e. has its token account on paper
+export function hasPaperBalance(
+  owner: PublicKey,
+  mint: PublicKey | null
+): boolean {
+  const wallet = getPaperWallet(owner);
+  return wallet !== undefined && readPaperEntry(wallet, mint) !== undefined;
+}
+
+/**
+ * Paper balance of a mint, or of native ETH with a null mint. The first read
+ * seeds it with the live balance.
+ */
+export async function getPaperBalance(
+  owner: PublicKey,
+  mint: PublicKey | null,
+  readLive: () => Promise<BN>
+): Promise<BN> {
+  const wallet = getWallet(owner);
+  const stored = readPaperEntry(wallet, mint);
+  if (stored !== undefined) {
+    return new BN(stored);
+  }
+
+  const live = await readLive();
+  writePaperEntry(wallet, mint, live);
+  saveWallets();
+  return live;
+}
+
+// Drops a wallet's paper balances, so the next read starts again from the chain
+export function resetPaperWallet(owner: PublicKey): boolean {
+  const all = loadWallets();
+  if (!all[owner.toBase58()]) {
+    return false;
+  }
+  delete all[owner.toBase58()];
+  saveWallets();
+  return true;
+}
+
+/**
+ * Simulates a transaction without signatures and never sends it
+ * @param watch Accounts whose state after the simulation is returned
+ * @throws TransactionFailedError if the simulation fails, as sending would
+ */
+export async function simulateDryRun(
+  connection: Connection,
+  transaction: Transaction,
+  payer: PublicKey,
+  watch: PublicKey[] = []
+): Promise<DryRunResult> {
+  if (!transaction.recentBlockhash) {
+    transaction.recentBlockhash = (
+      await connection.getLatestBlockhash("confirmed")
+    ).blockhash;
+  }
+  transaction.feePayer = transaction.feePayer ?? payer;
+
+  const { context, value } = await connection.simulateTransaction(
+    new VersionedTransaction(transaction.compileMessage()),
+    {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: watch.map((address) => address.toBase58()),
+      },
+    }
+  );
+  if (value.err) {
+    throw new TransactionFailedError({
+      status: "failed",
+      broadcasts: 0,
+      resigns: 0,
+      ...classifyTransactionError(
+        value.err,
+        transaction.instructions,
+        value.logs ?? undefined
+      ),
+    });
+  }
+
+  return {
+    signature: DRY_RUN_SIGNATURE_PREFIX + crypto.randomUUID(),
+    slot: context.slot,
+    logs: value.logs ?? [],
+    unitsConsumed: value.unitsConsumed,
+    accounts: (value.accounts ?? watch.map(() => null)).map((account) =>
+      account
+        ? {
+            lamports: account.lamports,
+            data: Buffer.from(account.data[0], "base64"),
+          }
+        : null
+    ),
+  };
+}
+
+function readTokenAmount(
+  account: { data: Buffer } | null | undefined
+): BN {
+  if (!account || account.data.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    return new BN(0);
+  }
+  return new BN(
+    account.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET).toString()
+  );
+}
+
+/**
+ * Simulates a transaction of the owner's and applies what it would do to the
+ * owner's native ETH and token accounts of the given mints to their paper
+ * balances. Token accounts created on paper only are created first in the
+ * simulation, their rent was already taken when they were created on paper.
+ *
+ * The simulation runs against the chain, so once paper balances have drifted
+ * from it the wallet may lack funds its paper wallet has. The expected
+ * changes, e.g. a quote's amounts, then stand in for the simulation and the
+ * fill is marked estimated.
+ * @returns The dry-run signature, its slot and the changes applied
+ * @throws TransactionFailedError if the simulation fails for another reason
+ */
+export async function simulateOnPaper(
+  connection: Connection,
+  transaction: Transaction,
+  owner: PublicKey,
+  mints: PublicKey[],
+  expected?: PaperChange[]
+): Promise<PaperFill> {
+  const tokenPrograms = await Promise.all(
+    mints.map((mint) => getTokenProgram(connection, mint))
+  );
+  const tokenAccounts = mints.map((mint, i) =>
+    getAssociatedTokenAddressSync(mint, owner, true, tokenPrograms[i])
+  );
+  const before = await connection.getMultipleAccountsInfo(
+    [owner, ...tokenAccounts],
+    "confirmed"
+  );
+  const paperOnly = mints.map(
+    (mint, i) => !before[i + 1] && hasPaperBalance(owner, mint)
+  );
+
+  const wallet = getWallet(owner);
+  // Paper balance, or the chain's for a balance not on paper yet
+  const readCurrent = (mint: PublicKey | null): BN => {
+    const stored = readPaperEntry(wallet, mint);
+    if (stored !== undefined) {
+      return new BN(stored);
+    }
+    if (mint === null) {
+      return new BN(before[0]?.lamports ?? 0);
+    }
+    const index = mints.findIndex((m) => m.equals(mint));
+    return index === -1 ? new BN(0) : readTokenAmount(before[index + 1]);
+  };
+
+  let simulated = transaction;
+  if (paperOnly.includes(true)) {
+    simulated = new Transaction();
+    simulated.feePayer = transaction.feePayer ?? owner;
+    mints.forEach((mint, i) => {
+      if (paperOnly[i]) {
+        simulated.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            owner,
+            tokenAccounts[i],
+            owner,
+            mint,
+            tokenPrograms[i]
+          )
+        );
+      }
+    });
+    simulated.add(...transaction.instructions);
+  }
+
+  let signature: string;
+  let slot: number;
+  let changes: PaperChange[];
+  let estimated = false;
+  try {
+    const result = await simulateDryRun(connection, simulated, owner, [
+      owner,
+      ...tokenAccounts,
+    ]);
+    signature = result.signature;
+    slot = result.slot;
+    const [ownerAfter, ...tokensAfter] = result.accounts;
+
+    let nativeDelta = new BN(ownerAfter?.lamports ?? 0).sub(
+      new BN(before[0]?.lamports ?? 0)
+    );
+    changes = mints.map((mint, i) => {
+      const after = tokensAfter[i];
+      const isNative = mint.equals(NATIVE_MINT);
+      if (!after && (before[i + 1] || paperOnly[i])) {
+        // A closed account leaves nothing behind, and a closed WSOL account
+        // unwraps its paper balance rather than its balance on chain
+        const current = readCurrent(mint);
+        if (isNative) {
+          nativeDelta = nativeDelta.add(
+            current.sub(readTokenAmount(before[i + 1]))
+          );
+        }
+        return { mint, delta: current.neg() };
+      }
+      if (paperOnly[i] && after) {
+        nativeDelta = nativeDelta.add(
+          new BN(after.lamports).sub(
+            isNative ? readTokenAmount(after) : new BN(0)
+          )
+        );
+      }
+      return {
+        mint,
+        delta: readTokenAmount(after).sub(readTokenAmount(before[i + 1])),
+      };
+    });
+    changes.unshift({ mint: null, delta: nativeDelta });
+  } catch (error) {
+    if (
+      !expected ||
+      !(error instanceof TransactionFailedError) ||
+      error.outcome.kind !== "insufficientFunds"
+    ) {
+      throw error;
+    }
+    console.error(
+      "Simulation failed, the wallet can't cover it on chain. Applying the expected amounts to its paper balances:",
+      error
+    );
+    signature = DRY_RUN_SIGNATURE_PREFIX + crypto.randomUUID();
+    slot = await connection.getSlot("confirmed");
+    changes = expected;
+    estimated = true;
+  }
+
+  for (const { mint, delta } of changes) {
+    writePaperEntry(
+      wallet,
+      mint,
+      BN.max(readCurrent(mint).add(delta), new BN(0))
+    );
+  }
+  saveWallets();
+
+  console.log(
+    `Dry run, nothing was sent: ${signature}${estimated ? " (estimated)" : ""}`
+  );
+  return { signature, slot, changes, estimated };
+}
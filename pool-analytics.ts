@@ -0,0 +1,277 @@
+import { PublicKey } from "@solana/web3.js";
+import { calculatePriceSqrt, Market, Pair } from "@invariant-labs/sdk-eclipse";
+import { Tick } from "@invariant-labs/sdk-eclipse/lib/market";
+import { getX, getY } from "@invariant-labs/sdk-eclipse/lib/math";
+import BN from "bn.js";
+
+import { connection, PoolWithAddress } from "./app";
+import { getPoolPrice, getUsdPrice } from "./pricing";
+import { resolveToken } from "./token-registry";
+
+// Pool fees are fixed point with 12 decimals, 1 bps is 10^8
+const FEE_BPS_SCALE = 1e8;
+
+// Initialized ticks read around the current tick for a depth chart
+export const DEFAULT_DEPTH_TICKS = 50;
+export const MAX_DEPTH_TICKS = 200;
+
+export interface PoolToken {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Amounts are base units written as strings, prices are in whole tokens
+export interface PoolAnalytics {
+  address: string;
+  tokenX: PoolToken;
+  tokenY: PoolToken;
+  // Raw pool fee and the same fee in bps
+  fee: string;
+  feeBps: number;
+  tickSpacing: number;
+  currentTickIndex: number;
+  sqrtPrice: string;
+  // Whole tokenY per whole tokenX, and the other way round
+  price: number;
+  inversePrice: number;
+  // Liquidity of the positions in range at the current price
+  liquidity: string;
+  reserveX: string;
+  reserveY: string;
+  // USD value of both reserves, null when neither token has a USD price
+  tvlUsd: number | null;
+}
+
+// Liquidity between two consecutive initialized ticks
+export interface DepthLevel {
+  lowerTick: number;
+  upperTick: number;
+  // Price of one whole tokenX in tokenY at both ends of the range
+  lowerPrice: number;
+  upperPrice: number;
+  liquidity: string;
+  // tokenX the range holds above the current price, tokenY below it
+  amountX: string;
+  amountY: string;
+  // tokenX a buyer takes moving the price up to upperPrice, or tokenY a
+  // seller takes moving it down to lowerPrice, counted from the current price
+  cumulativeX: string;
+  cumulativeY: string;
+}
+
+export interface PoolDepth {
+  address: string;
+  currentTickIndex: number;
+  price: number;
+  // Lowest range first
+  levels: DepthLevel[];
+}
+
+function toPoolToken(token: {
+  mint: PublicKey;
+  symbol: string;
+  decimals: number;
+}): PoolToken {
+  return {
+    mint: token.mint.toBase58(),
+    symbol: token.symbol,
+    decimals: token.decimals,
+  };
+}
+
+// Price of one whole tokenX in whole tokenY at a tick
+function tickToPrice(
+  tickIndex: number,
+  decimalsX: number,
+  decimalsY: number
+): number {
+  return getPoolPrice(
+    { sqrtPrice: calculatePriceSqrt(tickIndex) },
+    decimalsX,
+    decimalsY
+  );
+}
+
+function getPair(pool: PoolWithAddress): Pair {
+  return new Pair(pool.pool.tokenX, pool.pool.tokenY, {
+    fee: pool.pool.fee,
+    tickSpacing: pool.pool.tickSpacing,
+  });
+}
+
+/**
+ * Price, fee tier, liquidity, reserves and TVL of a pool. Pass the market's
+ * pools to price tokens without a stablecoin pool of their own.
+ */
+export async function getPoolAnalytics(
+  market: Market,
+  pool: PoolWithAddress,
+  allPools?: PoolWithAddress[]
+): Promise<PoolAnalytics> {
+  const { tokenX, tokenY } = pool.pool;
+  const [tokenXInfo, tokenYInfo, reserveX, reserveY] = await Promise.all([
+    resolveToken(connection, tokenX),
+    resolveToken(connection, tokenY),
+    connection.getTokenAccountBalance(pool.pool.tokenXReserve),
+    connection.getTokenAccountBalance(pool.pool.tokenYReserve),
+  ]);
+  const price = getPoolPrice(
+    pool.pool,
+    tokenXInfo.decimals,
+    tokenYInfo.decimals
+  );
+
+  // A token without a stablecoin pool is priced through the other side
+  let usdX = await getUsdPrice(market, tokenX, allPools);
+  let usdY = await getUsdPrice(market, tokenY, allPools);
+  if (usdX === null && usdY !== null) {
+    usdX = price * usdY;
+  } else if (usdY === null && usdX !== null && price > 0) {
+    usdY = usdX / price;
+  }
+  const tvlUsd =
+    usdX === null || usdY === null
+      ? null
+      : (Number(reserveX.value.amount) / 10 ** tokenXInfo.decimals) * usdX +
+        (Number(reserveY.value.amount) / 10 ** tokenYInfo.decimals) * usdY;
+
+  return {
+    address: pool.address.toBase58(),
+    tokenX: toPoolToken(tokenXInfo),
+    tokenY: toPoolToken(tokenYInfo),
+    fee: pool.pool.fee.toString(),
+    feeBps: Number(pool.pool.fee.toString()) / FEE_BPS_SCALE,
+    tickSpacing: pool.pool.tickSpacing,
+    currentTickIndex: pool.pool.currentTickIndex,
+    sqrtPrice: pool.pool.sqrtPrice.toString(),
+    price,
+    inversePrice: price > 0 ? 1 / price : 0,
+    liquidity: pool.pool.liquidity.toString(),
+    reserveX: reserveX.value.amount,
+    reserveY: reserveY.value.amount,
+    tvlUsd,
+  };
+}
+
+/**
+ * Depth chart of a pool from the initialized ticks closest to its current
+ * tick. Liquidity is walked outwards from the pool's active liquidity, adding
+ * or removing each tick's liquidity change as the price crosses it.
+ */
+export async function getPoolDepth(
+  market: Market,
+  pool: PoolWithAddress,
+  tickLimit: number = DEFAULT_DEPTH_TICKS
+): Promise<PoolDepth> {
+  const { tickSpacing, currentTickIndex, sqrtPrice, liquidity } = pool.pool;
+  const [tokenXInfo, tokenYInfo] = await Promise.all([
+    resolveToken(connection, pool.pool.tokenX),
+    resolveToken(connection, pool.pool.tokenY),
+  ]);
+
+  // The tickmap search needs a tick on the spacing grid
+  const alignedTick =
+    Math.floor(currentTickIndex / tickSpacing) * tickSpacing;
+  const ticks: Tick[] = (
+    await market.getClosestTicks(
+      getPair(pool),
+      tickLimit,
+      undefined,
+      undefined,
+      {
+        currentTickIndex: alignedTick,
+        tickSpacing,
+        tickmap: pool.pool.tickmap,
+      }
+    )
+  ).sort((a, b) => a.index - b.index);
+
+  // Ticks at or below the current tick have been crossed by the price
+  const below = ticks.filter((tick) => tick.index <= currentTickIndex);
+  const above = ticks.filter((tick) => tick.index > currentTickIndex);
+
+  const ranges: Array<{ lower: number; upper: number; liquidity: BN }> = [];
+  // The active range, narrowed to the current tick when a side has no ticks
+  ranges.push({
+    lower: below.length > 0 ? below[below.length - 1].index : alignedTick,
+    upper: above.length > 0 ? above[0].index : alignedTick + tickSpacing,
+    liquidity,
+  });
+
+  let current = liquidity;
+  for (let i = 0; i < above.length - 1; i++) {
+    const change = above[i].liquidityChange;
+    current = above[i].sign ? current.add(change) : current.sub(change);
+    ranges.push({
+      lower: above[i].index,
+      upper: above[i + 1].index,
+      liquidity: current,
+    });
+  }
+  current = liquidity;
+  for (let i = below.length - 1; i > 0; i--) {
+    const change = below[i].liquidityChange;
+    current = below[i].sign ? current.sub(change) : current.add(change);
+    ranges.unshift({
+      lower: below[i - 1].index,
+      upper: below[i].index,
+      liquidity: current,
+    });
+  }
+
+  const levels: DepthLevel[] = ranges.map((range) => {
+    const lowerSqrtPrice = calculatePriceSqrt(range.lower);
+    const upperSqrtPrice = calculatePriceSqrt(range.upper);
+    return {
+      lowerTick: range.lower,
+      upperTick: range.upper,
+      lowerPrice: tickToPrice(
+        range.lower,
+        tokenXInfo.decimals,
+        tokenYInfo.decimals
+      ),
+      upperPrice: tickToPrice(
+        range.upper,
+        tokenXInfo.decimals,
+        tokenYInfo.decimals
+      ),
+      liquidity: range.liquidity.toString(),
+      amountX: getX(
+        range.liquidity,
+        upperSqrtPrice,
+        sqrtPrice,
+        lowerSqrtPrice
+      ).toString(),
+      amountY: getY(
+        range.liquidity,
+        upperSqrtPrice,
+        sqrtPrice,
+        lowerSqrtPrice
+      ).toString(),
+      cumulativeX: "0",
+      cumulativeY: "0",
+    };
+  });
+
+  // tokenX sits above the current price and tokenY below it, so each side
+  // accumulates outwards from the active range
+  const active = Math.max(below.length - 1, 0);
+  let totalX = new BN(0);
+  for (let i = active; i < levels.length; i++) {
+    totalX = totalX.add(new BN(levels[i].amountX));
+    levels[i].cumulativeX = totalX.toString();
+  }
+  let totalY = new BN(0);
+  for (let i = active; i >= 0; i--) {
+    totalY = totalY.add(new BN(levels[i].amountY));
+    levels[i].cumulativeY = totalY.toString();
+  }
+
+  return {
+    address: pool.address.toBase58(),
+    currentTickIndex,
+    price: getPoolPrice(pool.pool, tokenXInfo.decimals, tokenYInfo.decimals),
+    levels,
+  };
+}
@@ -0,0 +1,75 @@
+import { ETH_USDC_FIXTURE_PATH, removeTestData } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, afterEach, describe, test } from "node:test";
+import { AccountChangeCallback, PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+
+import { FixtureConnection, loadFixture } from "./fixtures";
+import {
+  getCachedPools,
+  getPoolCacheStatus,
+  stopPoolCache,
+} from "./pool-cache";
+
+const fixture = loadFixture(ETH_USDC_FIXTURE_PATH);
+
+// Keeps the callbacks so a test can deliver account changes itself
+class SubscribedConnection extends FixtureConnection {
+  readonly callbacks = new Map<string, AccountChangeCallback>();
+
+  onAccountChange(
+    publicKey: PublicKey,
+    callback: AccountChangeCallback
+  ): number {
+    this.callbacks.set(publicKey.toBase58(), callback);
+    return super.onAccountChange(publicKey, callback);
+  }
+}
+
+function buildMarket(connection: FixtureConnection): Promise<Market> {
+  return Market.buildWithoutProvider(
+    fixture.network,
+    connection,
+    new PublicKey(fixture.programId)
+  );
+}
+
+afterEach(() => {
+  stopPoolCache();
+});
+
+after(() => {
+  removeTestData();
+});
+
+describe("getPoolCacheStatus", () => {
+  test("polls while subscriptions deliver no changes", async () => {
+    const market = await buildMarket(new FixtureConnection(fixture));
+    await getCachedPools(market);
+    const status = getPoolCacheStatus();
+
+    assert.equal(status.loaded, true);
+    assert.equal(status.subscriptions, fixture.pools.length);
+    assert.equal(status.mode, "polling");
+    assert.equal(status.lastChangeAt, null);
+    assert.equal(status.stale, false);
+  });
+
+  test("relies on subscriptions once a change arrives", async () => {
+    const connection = new SubscribedConnection(fixture);
+    const market = await buildMarket(connection);
+    await getCachedPools(market);
+
+    const [address] = fixture.pools;
+    const info = await connection.getAccountInfo(new PublicKey(address));
+    const callback = connection.callbacks.get(address);
+    assert.ok(info && callback);
+    callback(info, { slot: fixture.slot });
+    const status = getPoolCacheStatus();
+
+    assert.equal(status.mode, "subscriptions");
+    assert.notEqual(status.lastChangeAt, null);
+    assert.equal(status.stale, false);
+  });
+});
@@ -0,0 +1,274 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import { parsePool } from "@invariant-labs/sdk-eclipse/lib/market";
+
+import { fetchAllPoolsWithAddresses, PoolWithAddress } from "./app";
+import {
+  POOL_CACHE_REFRESH_MS,
+  POOL_CACHE_RESYNC_MS,
+  POOL_CACHE_SUBSCRIBE,
+} from "./config";
+
+export interface PoolCacheStatus {
+  loaded: boolean;
+  // "subscriptions" while account changes are arriving, "polling" when pools
+  // are reloaded on an interval, including while subscriptions are silent
+  mode: "subscriptions" | "polling";
+  pools: number;
+  pairs: number;
+  subscriptions: number;
+  // Last full reload of every pool, and last pool changed by a subscription
+  refreshedAt: string | null;
+  lastChangeAt: string | null;
+  ageMs: number | null;
+  // The last reload is more than two intervals old, the polling interval
+  // unless subscriptions are seen delivering changes
+  stale: boolean;
+  lastError?: string;
+}
+
+interface PoolCacheState {
+  market: Market | null;
+  pools: Map<string, PoolWithAddress>;
+  pairs: Map<string, PoolWithAddress[]>;
+  subscriptions: Map<string, number>;
+  subscribed: boolean;
+  refreshedAt: number | null;
+  lastChangeAt: number | null;
+  lastError?: string;
+  loading: Promise<void> | null;
+  timer: NodeJS.Timeout | null;
+}
+
+const state: PoolCacheState = {
+  market: null,
+  pools: new Map(),
+  pairs: new Map(),
+  subscriptions: new Map(),
+  subscribed: false,
+  refreshedAt: null,
+  lastChangeAt: null,
+  loading: null,
+  timer: null,
+};
+
+// Same key whichever way round the pair is given
+function pairKey(mintA: PublicKey, mintB: PublicKey): string {
+  const [a, b] = [mintA.toBase58(), mintB.toBase58()];
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+// Pool account changes are decoded in place, so the pair index keeps pointing at them
+function subscribe(market: Market, entry: PoolWithAddress) {
+  const address = entry.address.toBase58();
+  if (state.subscriptions.has(address)) {
+    return;
+  }
+
+  // The market's own connection, so a fixture market never opens a websocket
+  const { connection } = market.program.provider;
+  const id = connection.onAccountChange(
+    entry.address,
+    (accountInfo) => {
+      try {
+        entry.pool = parsePool(
+          market.program.coder.accounts.decode("Pool", accountInfo.data)
+        );
+        state.lastChangeAt = Date.now();
+      } catch (error) {
+        console.error(`Failed to decode pool ${address}:`, error);
+      }
+    },
+    "confirmed"
+  );
+  state.subscriptions.set(address, id);
+}
+
+async function unsubscribe(market: Market, address: string) {
+  const id = state.subscriptions.get(address);
+  if (id === undefined) {
+    return;
+  }
+  state.subscriptions.delete(address);
+  try {
+    await market.program.provider.connection.removeAccountChangeListener(id);
+  } catch (error) {
+    console.error(`Failed to unsubscribe from pool ${address}:`, error);
+  }
+}
+
+/**
+ * Reloads every pool and rebuilds the pair index. Pools already cached keep
+ * their object, so callers holding them see the new state. Subscriptions are
+ * opened for new pools and closed for pools that are gone.
+ */
+async function reload(market: Market) {
+  const fetched = await fetchAllPoolsWithAddresses(market);
+
+  const pools = new Map<string, PoolWithAddress>();
+  const pairs = new Map<string, PoolWithAddress[]>();
+  for (const { pool, address } of fetched) {
+    const key = address.toBase58();
+    const entry = state.pools.get(key) ?? { pool, address };
+    entry.pool = pool;
+    pools.set(key, entry);
+
+    const pair = pairKey(pool.tokenX, pool.tokenY);
+    pairs.set(pair, [...(pairs.get(pair) ?? []), entry]);
+  }
+
+  for (const address of state.subscriptions.keys()) {
+    if (!pools.has(address)) {
+      await unsubscribe(market, address);
+    }
+  }
+  if (state.subscribed) {
+    for (const entry of pools.values()) {
+      subscribe(market, entry);
+    }
+  }
+
+  state.pools = pools;
+  state.pairs = pairs;
+  state.refreshedAt = Date.now();
+  state.lastError = undefined;
+}
+
+// Subscriptions report nothing when their websocket fails, so they're only
+// trusted while a change arrived within the last polling interval
+function subscriptionsLive(): boolean {
+  return (
+    state.subscribed &&
+    state.lastChangeAt !== null &&
+    Date.now() - state.lastChangeAt <= POOL_CACHE_REFRESH_MS
+  );
+}
+
+function refreshInterval(): number {
+  return subscriptionsLive() ? POOL_CACHE_RESYNC_MS : POOL_CACHE_REFRESH_MS;
+}
+
+// Checks every polling interval, reloading when subscriptions are silent and
+// only for a full resync while they deliver changes
+function startTimer(market: Market) {
+  if (state.timer) {
+    clearInterval(state.timer);
+  }
+  state.timer = setInterval(async () => {
+    // A slow reload may outlast the interval
+    if (state.loading) {
+      return;
+    }
+    if (
+      subscriptionsLive() &&
+      state.refreshedAt !== null &&
+      Date.now() - state.refreshedAt < POOL_CACHE_RESYNC_MS
+    ) {
+      return;
+    }
+    state.loading = reload(market);
+    try {
+      await state.loading;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      console.error("Failed to refresh pools:", error);
+    } finally {
+      state.loading = null;
+    }
+  }, POOL_CACHE_REFRESH_MS);
+  // The cache alone never keeps the process alive
+  state.timer.unref();
+}
+
+/**
+ * Loads the market's pools on first use and keeps them fresh from then on.
+ * Concurrent first calls share the same load.
+ */
+async function ensureLoaded(market: Market) {
+  if (state.market === market && state.refreshedAt !== null) {
+    return;
+  }
+  if (state.market !== market) {
+    stopPoolCache();
+    state.market = market;
+    state.pools = new Map();
+    state.pairs = new Map();
+    state.refreshedAt = null;
+    state.lastChangeAt = null;
+    state.subscribed = POOL_CACHE_SUBSCRIBE;
+  }
+
+  if (!state.loading) {
+    state.loading = reload(market).finally(() => {
+      state.loading = null;
+    });
+  }
+  await state.loading;
+  if (!state.timer) {
+    startTimer(market);
+  }
+}
+
+// Every pool of the market, loaded once and then kept fresh
+export async function getCachedPools(
+  market: Market
+): Promise<PoolWithAddress[]> {
+  await ensureLoaded(market);
+  return Array.from(state.pools.values());
+}
+
+// Pools trading two tokens, in either order, read from the pair index
+export async function getCachedPoolsForPair(
+  market: Market,
+  mintA: PublicKey,
+  mintB: PublicKey
+): Promise<PoolWithAddress[]> {
+  await ensureLoaded(market);
+  return (state.pairs.get(pairKey(mintA, mintB)) ?? []).slice();
+}
+
+export async function getCachedPool(
+  market: Market,
+  address: PublicKey
+): Promise<PoolWithAddress | undefined> {
+  await ensureLoaded(market);
+  return state.pools.get(address.toBase58());
+}
+
+export function getPoolCacheStatus(): PoolCacheStatus {
+  const ageMs =
+    state.refreshedAt === null ? null : Date.now() - state.refreshedAt;
+  return {
+    loaded: state.refreshedAt !== null,
+    mode: subscriptionsLive() ? "subscriptions" : "polling",
+    pools: state.pools.size,
+    pairs: state.pairs.size,
+    subscriptions: state.subscriptions.size,
+    refreshedAt:
+      state.refreshedAt === null
+        ? null
+        : new Date(state.refreshedAt).toISOString(),
+    lastChangeAt:
+      state.lastChangeAt === null
+        ? null
+        : new Date(state.lastChangeAt).toISOString(),
+    ageMs,
+    stale: ageMs !== null && ageMs > 2 * refreshInterval(),
+    lastError: state.lastError,
+  };
+}
+
+// Stops refreshing and closes every subscription, the next call loads again
+export function stopPoolCache() {
+  if (state.timer) {
+    clearInterval(state.timer);
+    state.timer = null;
+  }
+  const { market } = state;
+  if (market) {
+    for (const address of Array.from(state.subscriptions.keys())) {
+      void unsubscribe(market, address);
+    }
+  }
+  state.refreshedAt = null;
+}
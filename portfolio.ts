@@ -0,0 +1,203 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { Market } from "@invariant-labs/sdk-eclipse";
+
+import { connection, getAllPoolsWithAddresses } from "./app";
+import { getUsdPrice } from "./pricing";
+import { getPaperWallet, isDryRun } from "./paper";
+import { getTokenByMint, resolveToken } from "./token-registry";
+
+// Native ETH has 9 decimals, like the WSOL it is priced as
+const NATIVE_DECIMALS = 9;
+
+// One balance of the wallet, amounts in base units written as strings
+export interface PortfolioHolding {
+  mint: string;
+  // Registered symbol, null for tokens missing from the registry
+  symbol: string | null;
+  // Token account holding the balance, the wallet itself for native ETH
+  account: string;
+  tokenProgram: string | null;
+  native: boolean;
+  amount: string;
+  decimals: number;
+  // Whole tokens
+  uiAmount: number;
+  // USD per whole token and the holding's value, null without a stablecoin pool
+  priceUsd: number | null;
+  valueUsd: number | null;
+}
+
+export interface Portfolio {
+  owner: string;
+  // Most valuable first, unpriced holdings last
+  holdings: PortfolioHolding[];
+  // Value of every priced holding
+  totalUsd: number;
+  // Holdings left out of the total for lack of a USD price
+  unpriced: number;
+}
+
+export interface PortfolioOptions {
+  // List token accounts with a zero balance too
+  includeEmpty?: boolean;
+}
+
+// Every token account of the owner under one token program
+async function getTokenHoldings(
+  owner: PublicKey,
+  tokenProgram: PublicKey
+): Promise<PortfolioHolding[]> {
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    owner,
+    { programId: tokenProgram },
+    "confirmed"
+  );
+
+  return value.map(({ pubkey, account }) => {
+    const info = account.data.parsed.info;
+    const mint = new PublicKey(info.mint);
+    const { amount, decimals } = info.tokenAmount;
+    return {
+      mint: mint.toBase58(),
+      symbol: getTokenByMint(mint)?.symbol ?? null,
+      account: pubkey.toBase58(),
+      tokenProgram: tokenProgram.toBase58(),
+      native: false,
+      amount,
+      decimals,
+      uiAmount: Number(amount) / 10 ** decimals,
+      priceUsd: null,
+      valueUsd: null,
+    };
+  });
+}
+
+function setAmount(holding: PortfolioHolding, amount: string) {
+  holding.amount = amount;
+  holding.uiAmount = Number(amount) / 10 ** holding.decimals;
+}
+
+/**
+ * Replaces the wallet's balances with its paper balances in dry-run mode.
+ * Paper balances belong to associated token accounts, which may only exist
+ * on paper.
+ */
+async function applyPaperBalances(
+  owner: PublicKey,
+  holdings: PortfolioHolding[]
+) {
+  const wallet = getPaperWallet(owner);
+  if (!wallet) {
+    return;
+  }
+
+  if (wallet.lamports !== undefined) {
+    setAmount(holdings.find((holding) => holding.native)!, wallet.lamports);
+  }
+  for (const [mintAddress, amount] of Object.entries(wallet.tokens)) {
+    const token = await resolveToken(connection, new PublicKey(mintAddress));
+    const account = getAssociatedTokenAddressSync(
+      token.mint,
+      owner,
+      true,
+      token.tokenProgram
+    ).toBase58();
+
+    const holding = holdings.find((h) => h.account === account);
+    if (holding) {
+      setAmount(holding, amount);
+      continue;
+    }
+    const paperOnly: PortfolioHolding = {
+      mint: mintAddress,
+      symbol: getTokenByMint(token.mint)?.symbol ?? null,
+      account,
+      tokenProgram: token.tokenProgram.toBase58(),
+      native: false,
+      amount,
+      decimals: token.decimals,
+      uiAmount: Number(amount) / 10 ** token.decimals,
+      priceUsd: null,
+      valueUsd: null,
+    };
+    holdings.push(paperOnly);
+  }
+}
+
+/**
+ * Values everything a wallet holds: native ETH and every SPL and Token-2022
+ * account. Each token is priced in USD from its deepest Invariant pool
+ * against USDC or USDT, native ETH as WSOL. In dry-run mode the wallet's
+ * paper balances are valued instead, see paper.ts.
+ */
+export async function getPortfolio(
+  market: Market,
+  owner: PublicKey,
+  options: PortfolioOptions = {}
+): Promise<Portfolio> {
+  const [lamports, splHoldings, token2022Holdings, allPools] =
+    await Promise.all([
+      connection.getBalance(owner, "confirmed"),
+      getTokenHoldings(owner, TOKEN_PROGRAM_ID),
+      getTokenHoldings(owner, TOKEN_2022_PROGRAM_ID),
+      getAllPoolsWithAddresses(market),
+    ]);
+
+  const allHoldings: PortfolioHolding[] = [
+    {
+      mint: NATIVE_MINT.toBase58(),
+      symbol: getTokenByMint(NATIVE_MINT)?.symbol ?? "ETH",
+      account: owner.toBase58(),
+      tokenProgram: null,
+      native: true,
+      amount: lamports.toString(),
+      decimals: NATIVE_DECIMALS,
+      uiAmount: lamports / LAMPORTS_PER_SOL,
+      priceUsd: null,
+      valueUsd: null,
+    },
+    ...splHoldings,
+    ...token2022Holdings,
+  ];
+  if (isDryRun()) {
+    await applyPaperBalances(owner, allHoldings);
+  }
+  // Native ETH is always listed
+  const holdings = allHoldings.filter(
+    (holding) =>
+      holding.native ||
+      options.includeEmpty === true ||
+      holding.amount !== "0"
+  );
+
+  // Accounts of the same mint share one price lookup
+  const prices = new Map<string, number | null>();
+  for (const holding of holdings) {
+    if (!prices.has(holding.mint)) {
+      prices.set(
+        holding.mint,
+        await getUsdPrice(market, new PublicKey(holding.mint), allPools)
+      );
+    }
+    holding.priceUsd = prices.get(holding.mint)!;
+    holding.valueUsd =
+      holding.priceUsd === null ? null : holding.uiAmount * holding.priceUsd;
+  }
+
+  holdings.sort((a, b) => (b.valueUsd ?? -1) - (a.valueUsd ?? -1));
+  return {
+    owner: owner.toBase58(),
+    holdings,
+    totalUsd: holdings.reduce(
+      (total, holding) => total + (holding.valueUsd ?? 0),
+      0
+    ),
+    unpriced: holdings.filter((holding) => holding.priceUsd === null).length,
+  };
+}
@@ -0,0 +1,75 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import { PoolStructure } from "@invariant-labs/sdk-eclipse/lib/market";
+
+import { connection, getAllPoolsWithAddresses, PoolWithAddress } from "./app";
+import { getTokenBySymbol, resolveToken } from "./token-registry";
+
+// Pool square root prices are fixed point with 24 decimals
+const SQRT_PRICE_SCALE = 1e24;
+
+// Registered stablecoins valued at exactly 1 USD, none on a network without them
+export function getUsdStablecoins(): PublicKey[] {
+  return ["USDT", "USDC"]
+    .map((symbol) => getTokenBySymbol(symbol)?.mint)
+    .filter((mint): mint is PublicKey => mint !== undefined);
+}
+
+export function isUsdStablecoin(mint: PublicKey): boolean {
+  return getUsdStablecoins().some((stablecoin) => stablecoin.equals(mint));
+}
+
+/**
+ * Price of one whole tokenX in whole tokenY, from the pool's square root
+ * price and the decimals of both tokens
+ */
+export function getPoolPrice(
+  pool: Pick<PoolStructure, "sqrtPrice">,
+  decimalsX: number,
+  decimalsY: number
+): number {
+  const sqrtPrice = Number(pool.sqrtPrice.toString()) / SQRT_PRICE_SCALE;
+  return sqrtPrice * sqrtPrice * 10 ** (decimalsX - decimalsY);
+}
+
+// Price of one whole token of the given mint, quoted in the pool's other token
+export async function getTokenPriceInPool(
+  pool: PoolWithAddress,
+  mint: PublicKey
+): Promise<number> {
+  const [tokenX, tokenY] = await Promise.all([
+    resolveToken(connection, pool.pool.tokenX),
+    resolveToken(connection, pool.pool.tokenY),
+  ]);
+  const price = getPoolPrice(pool.pool, tokenX.decimals, tokenY.decimals);
+  return pool.pool.tokenX.equals(mint) ? price : 1 / price;
+}
+
+/**
+ * USD price of one whole token, read from its most liquid pool against a
+ * stablecoin. Returns null when the token has no stablecoin pool. Pass the
+ * market's pools when they were already fetched.
+ */
+export async function getUsdPrice(
+  market: Market,
+  mint: PublicKey,
+  allPools?: PoolWithAddress[]
+): Promise<number | null> {
+  if (isUsdStablecoin(mint)) {
+    return 1;
+  }
+
+  const pools = (allPools ?? (await getAllPoolsWithAddresses(market))).filter(
+    ({ pool }) =>
+      (pool.tokenX.equals(mint) && isUsdStablecoin(pool.tokenY)) ||
+      (pool.tokenY.equals(mint) && isUsdStablecoin(pool.tokenX))
+  );
+  if (pools.length === 0) {
+    return null;
+  }
+
+  const deepest = pools.reduce((best, pool) =>
+    pool.pool.liquidity.gt(best.pool.liquidity) ? pool : best
+  );
+  return getTokenPriceInPool(deepest, mint);
+}
@@ -0,0 +1,230 @@
+import {
+  ETH_USDC_FIXTURE_PATH,
+  removeTestData,
+  TEST_JOURNAL_PATH,
+  USDC_MINT,
+} from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { Keypair } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import {
+  fromFee,
+  SimulationStatus,
+} from "@invariant-labs/sdk-eclipse/lib/utils";
+import BN from "bn.js";
+
+import { ETH_MINT, PoolWithAddress } from "./app";
+import {
+  createFixtureMarket,
+  getFixturePools,
+  loadFixture,
+  PoolFixture,
+} from "./fixtures";
+import { readJournal } from "./journal";
+import { stopPoolCache } from "./pool-cache";
+import { getQuotes, isQuoteOk, quotePool } from "./quote";
+import { applySlippageToInput } from "./slippage";
+
+const ONE_ETH = new BN(1_000_000_000);
+const SLIPPAGE_BPS = 100;
+
+let fixture: PoolFixture;
+let market: Market;
+let pools: PoolWithAddress[];
+
+function feeOf(pool: PoolWithAddress): BN {
+  return pool.pool.fee;
+}
+
+function findPool(fee: number): PoolWithAddress {
+  const pool = pools.find((candidate) =>
+    feeOf(candidate).eq(fromFee(new BN(fee)))
+  );
+  assert.ok(pool, `No pool with fee ${fee} in the fixture`);
+  return pool;
+}
+
+before(async () => {
+  fixture = loadFixture(ETH_USDC_FIXTURE_PATH);
+  market = await createFixtureMarket(fixture);
+  pools = await getFixturePools(market, fixture);
+});
+
+after(() => {
+  stopPoolCache();
+  removeTestData();
+});
+
+describe("getQuotes", () => {
+  test("quotes every pool of the pair from the fixture", async () => {
+    const quotes = await getQuotes(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+
+    assert.deepEqual(
+      quotes.map((quote) => quote.pool.address.toBase58()).sort(),
+      [...fixture.pools].sort()
+    );
+  });
+
+  test("exactIn spends the amount and sells tokenY for tokenX", async () => {
+    const quotes = await getQuotes(
+      market,
+      ETH_MINT,
+      [USDC_MINT],
+      ONE_ETH,
+      SLIPPAGE_BPS,
+      "exactIn"
+    );
+    const best = quotes[0];
+
+    assert.equal(best.status, SimulationStatus.Ok);
+    assert.ok(best.tokenOut.equals(USDC_MINT));
+    // USDC sorts before WSOL, so ETH is the pool's tokenY
+    assert.equal(best.xToY, false);
+    assert.ok(best.amountIn.eq(ONE_ETH));
+    assert.ok(best.swapAmount.eq(ONE_ETH));
+    assert.ok(best.amountOut.gt(new BN(2_900_000_000)));
+    assert.ok(best.amountOut.lt(new BN(3_000_000_000)));
+  });
+
+  test("exactOut buys the amount, the fee added to the input", async () => {
+    const quotes = await getQuotes(
+      market,
+      USDC_MINT,
+      [ETH_MINT],
+      ONE_ETH,
+      SLIPPAGE_BPS,
+      "exactOut"
+    );
+    const best = quotes[0];
+
+    assert.equal(best.status, SimulationStatus.Ok);
+    assert.ok(best.tokenOut.equals(ETH_MINT));
+    assert.equal(best.xToY, true);
+    assert.ok(best.amountOut.eq(ONE_ETH));
+    assert.ok(best.fee.gtn(0));
+    assert.ok(best.amountIn.gt(new BN(3_000_000_000)));
+    assert.ok(best.amountIn.lt(new BN(3_100_000_000)));
+  });
+
+  test("ranks the lower fee tier first at equal liquidity", async () => {
+    const quotes = await getQuotes(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+    const [first, second] = quotes;
+
+    assert.ok(feeOf(first.pool).eq(feeOf(findPool(10))));
+    assert.ok(feeOf(second.pool).eq(feeOf(findPool(50))));
+    assert.ok(first.amountOut.gt(second.amountOut));
+    // 0.05% of the input against 0.01% of it
+    assert.ok(second.fee.eq(first.fee.muln(5)));
+  });
+
+  test("ranks the lowest input first for exactOut", async () => {
+    const quotes = (
+      await getQuotes(
+        market,
+        USDC_MINT,
+        [ETH_MINT],
+        ONE_ETH,
+        SLIPPAGE_BPS,
+        "exactOut"
+      )
+    ).filter(isQuoteOk);
+
+    assert.equal(quotes.length, 2);
+    assert.ok(quotes[0].amountIn.lt(quotes[1].amountIn));
+    assert.ok(feeOf(quotes[0].pool).eq(feeOf(findPool(10))));
+  });
+
+  test("exactIn minReceived drops as slippage grows", async () => {
+    const [tight] = await getQuotes(
+      market,
+      ETH_MINT,
+      [USDC_MINT],
+      ONE_ETH,
+      10
+    );
+    const [loose] = await getQuotes(
+      market,
+      ETH_MINT,
+      [USDC_MINT],
+      ONE_ETH,
+      SLIPPAGE_BPS
+    );
+
+    assert.ok(tight.minReceived.gtn(0));
+    assert.ok(tight.minReceived.lt(tight.amountOut));
+    assert.ok(loose.minReceived.lt(tight.minReceived));
+    assert.ok(tight.maxAmountIn.eq(tight.amountIn));
+  });
+
+  test("exactOut maxAmountIn is the input plus slippage", async () => {
+    const [best] = await getQuotes(
+      market,
+      USDC_MINT,
+      [ETH_MINT],
+      ONE_ETH,
+      SLIPPAGE_BPS,
+      "exactOut"
+    );
+
+    assert.ok(
+      best.maxAmountIn.eq(applySlippageToInput(best.amountIn, SLIPPAGE_BPS))
+    );
+    assert.ok(best.maxAmountIn.gt(best.amountIn));
+  });
+
+  test("keeps pools that can't fill the amount, ranked last", async () => {
+    const quotes = await getQuotes(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+    const last = quotes[quotes.length - 1];
+
+    assert.ok(feeOf(last.pool).eq(feeOf(findPool(20))));
+    assert.equal(last.status, SimulationStatus.SwapStepLimitReached);
+    assert.equal(isQuoteOk(last), false);
+    assert.ok(last.amountOut.eqn(0));
+    assert.deepEqual(quotes.slice(0, -1).map(isQuoteOk), [true, true]);
+  });
+
+  test("fails every pool when the amount is beyond all of them", async () => {
+    const quotes = await getQuotes(
+      market,
+      ETH_MINT,
+      [USDC_MINT],
+      ONE_ETH.muln(1000)
+    );
+
+    assert.equal(quotes.length, fixture.pools.length);
+    assert.ok(quotes.every((quote) => !isQuoteOk(quote)));
+  });
+
+  test("returns no quotes for a pair without pools", async () => {
+    const quotes = await getQuotes(
+      market,
+      ETH_MINT,
+      [Keypair.generate().publicKey],
+      ONE_ETH
+    );
+
+    assert.deepEqual(quotes, []);
+  });
+
+  test("journals each quote to JOURNAL_PATH", async () => {
+    const previous = readJournal(TEST_JOURNAL_PATH).length;
+    const quotes = await getQuotes(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+    const entries = readJournal(TEST_JOURNAL_PATH).slice(previous);
+
+    assert.equal(entries.length, quotes.length);
+    assert.ok(entries.every((entry) => entry.type === "quote"));
+  });
+});
+
+describe("quotePool", () => {
+  test("reports why a pool can't be simulated as its status", async () => {
+    const missing = { ...findPool(10), address: Keypair.generate().publicKey };
+    const quote = await quotePool(market, missing, ETH_MINT, ONE_ETH);
+
+    assert.equal(isQuoteOk(quote), false);
+    assert.equal(typeof quote.status, "string");
+    assert.ok(quote.amountOut.eqn(0));
+  });
+});
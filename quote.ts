@@ -0,0 +1,196 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import {
+  SimulationStatus,
+  swapSimulation,
+} from "@invariant-labs/sdk-eclipse/lib/utils";
+import BN from "bn.js";
+
+import {
+  getPoolsForTokenPair,
+  PoolWithAddress,
+  TICK_CROSSES_PER_IX_NATIVE_TOKEN,
+} from "./app";
+import { DEFAULT_SLIPPAGE_BPS } from "./config";
+import { applySlippageToInput, slippageToDecimal } from "./slippage";
+import { recordJournalEntry } from "./journal";
+
+// exactIn spends a fixed input amount, exactOut buys a fixed output amount
+export type SwapMode = "exactIn" | "exactOut";
+
+// Simulated outcome of swapping an amount through a single pool
+export interface PoolQuote {
+  pool: PoolWithAddress;
+  tokenIn: PublicKey;
+  tokenOut: PublicKey;
+  xToY: boolean;
+  mode: SwapMode;
+  // Amount the swap is built around: input for exactIn, output for exactOut
+  swapAmount: BN;
+  // Total input including the swap fee
+  amountIn: BN;
+  amountOut: BN;
+  // Most input the swap may spend under the slippage tolerance
+  maxAmountIn: BN;
+  fee: BN;
+  priceImpact: BN;
+  priceAfterSwap: BN;
+  minReceived: BN;
+  // SimulationStatus.Ok, a failed simulation status, or the error message
+  status: SimulationStatus | string;
+}
+
+export function isQuoteOk(quote: PoolQuote): boolean {
+  return quote.status === SimulationStatus.Ok;
+}
+
+// Successful quotes first, by highest output (exactIn) or lowest input
+// (exactOut), then lowest price impact
+function compareQuotes(a: PoolQuote, b: PoolQuote): number {
+  if (isQuoteOk(a) !== isQuoteOk(b)) {
+    return isQuoteOk(a) ? -1 : 1;
+  }
+  const byAmount =
+    a.mode === "exactOut"
+      ? a.amountIn.cmp(b.amountIn)
+      : b.amountOut.cmp(a.amountOut);
+  if (byAmount !== 0) {
+    return byAmount;
+  }
+  return a.priceImpact.cmp(b.priceImpact);
+}
+
+// Simulate the amount through a single pool. The amount is the input for
+// exactIn quotes and the desired output for exactOut quotes.
+export async function quotePool(
+  market: Market,
+  pool: PoolWithAddress,
+  tokenIn: PublicKey,
+  amount: BN,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  mode: SwapMode = "exactIn"
+): Promise<PoolQuote> {
+  const xToY = pool.pool.tokenX.equals(tokenIn);
+  const byAmountIn = mode === "exactIn";
+  const quote: PoolQuote = {
+    pool,
+    tokenIn,
+    tokenOut: xToY ? pool.pool.tokenY : pool.pool.tokenX,
+    xToY,
+    mode,
+    swapAmount: amount,
+    amountIn: byAmountIn ? amount : new BN(0),
+    amountOut: byAmountIn ? new BN(0) : amount,
+    maxAmountIn: byAmountIn ? amount : new BN(0),
+    fee: new BN(0),
+    priceImpact: new BN(0),
+    priceAfterSwap: new BN(0),
+    minReceived: new BN(0),
+    status: SimulationStatus.Ok,
+  };
+
+  try {
+    const simulation = await swapSimulation(
+      xToY,
+      byAmountIn,
+      amount,
+      undefined,
+      slippageToDecimal(slippageBps),
+      market,
+      pool.address,
+      TICK_CROSSES_PER_IX_NATIVE_TOKEN
+    );
+
+    quote.status = simulation.status;
+    if (simulation.status === SimulationStatus.Ok) {
+      if (!byAmountIn) {
+        quote.amountIn = simulation.accumulatedAmountIn.add(
+          simulation.accumulatedFee
+        );
+        quote.maxAmountIn = applySlippageToInput(quote.amountIn, slippageBps);
+      }
+      quote.amountOut = simulation.accumulatedAmountOut;
+      quote.fee = simulation.accumulatedFee;
+      quote.priceImpact = simulation.priceImpact;
+      quote.priceAfterSwap = simulation.priceAfterSwap;
+      quote.minReceived = simulation.minReceived;
+    }
+  } catch (error) {
+    quote.status = error instanceof Error ? error.message : String(error);
+  }
+
+  return quote;
+}
+
+/**
+ * Simulates the amount against every given pool in parallel and returns the
+ * quotes ranked best first. Pools whose simulation failed are kept at the end.
+ */
+export async function quotePools(
+  market: Market,
+  pools: PoolWithAddress[],
+  tokenIn: PublicKey,
+  amount: BN,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  mode: SwapMode = "exactIn"
+): Promise<PoolQuote[]> {
+  const quotes = await Promise.all(
+    pools.map((pool) =>
+      quotePool(market, pool, tokenIn, amount, slippageBps, mode)
+    )
+  );
+  return quotes.sort(compareQuotes);
+}
+
+// Find every pool pairing the input token with any of the output tokens
+export async function findCandidatePools(
+  market: Market,
+  tokenIn: PublicKey,
+  tokensOut: PublicKey[]
+): Promise<PoolWithAddress[]> {
+  const candidates: PoolWithAddress[] = [];
+  for (const tokenOut of tokensOut) {
+    candidates.push(...(await getPoolsForTokenPair(market, tokenIn, tokenOut)));
+  }
+  return candidates;
+}
+
+/**
+ * Quotes an input token against every pool pairing it with any of the output
+ * tokens (for example USDT and USDC), ranked best first
+ */
+export async function getQuotes(
+  market: Market,
+  tokenIn: PublicKey,
+  tokensOut: PublicKey[],
+  amount: BN,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  mode: SwapMode = "exactIn"
+): Promise<PoolQuote[]> {
+  const pools = await findCandidatePools(market, tokenIn, tokensOut);
+  const quotes = await quotePools(
+    market,
+    pools,
+    tokenIn,
+    amount,
+    slippageBps,
+    mode
+  );
+
+  for (const quote of quotes) {
+    recordJournalEntry({
+      type: "quote",
+      pool: quote.pool.address.toBase58(),
+      inputMint: quote.tokenIn.toBase58(),
+      outputMint: quote.tokenOut.toBase58(),
+      mode: quote.mode,
+      amountIn: quote.amountIn.toString(),
+      amountOut: quote.amountOut.toString(),
+      fee: quote.fee.toString(),
+      priceImpact: quote.priceImpact.toString(),
+      slippageBps,
+      status: String(quote.status),
+    });
+  }
+  return quotes;
+}
@@ -0,0 +1,130 @@
+import { removeTestData, USDC_MINT } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import {
+  createCloseAccountInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import BN from "bn.js";
+
+import { reconcileSwap } from "./reconcile";
+
+const FEE = 5000;
+const RENT = 2_039_280;
+const SWAPPED_IN = LAMPORTS_PER_SOL;
+const WRAPPED = SWAPPED_IN + LAMPORTS_PER_SOL / 100;
+const RECEIVED = 2_998_000_000;
+
+after(() => {
+  removeTestData();
+});
+
+/**
+ * A confirmed nativeEth swap of ETH for USDC: wrap, swap and close the WSOL
+ * account, whose balance before the swap was wsolBefore lamports
+ */
+function nativeSwapResponse(
+  owner: PublicKey,
+  wsolBefore: number
+): VersionedTransactionResponse {
+  const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: owner,
+      toPubkey: wsolAccount,
+      lamports: WRAPPED,
+    }),
+    createCloseAccountInstruction(wsolAccount, owner, owner)
+  );
+  transaction.feePayer = owner;
+  transaction.recentBlockhash = PublicKey.default.toBase58();
+  const message = transaction.compileMessage();
+  const keys = message.accountKeys;
+
+  const preBalances = keys.map(() => 0);
+  const postBalances = keys.map(() => 0);
+  const ownerIndex = keys.findIndex((key) => key.equals(owner));
+  const wsolIndex = keys.findIndex((key) => key.equals(wsolAccount));
+  // A WSOL account created by the transaction costs rent, repaid on close
+  const rent = wsolBefore === 0 ? RENT : 0;
+  const closed = wsolBefore + rent + WRAPPED - SWAPPED_IN;
+  preBalances[ownerIndex] = 10 * LAMPORTS_PER_SOL;
+  postBalances[ownerIndex] =
+    preBalances[ownerIndex] - FEE - WRAPPED - rent + closed;
+  preBalances[wsolIndex] = wsolBefore;
+
+  const usdcBalance = (amount: number) => ({
+    accountIndex: keys.length,
+    mint: USDC_MINT.toBase58(),
+    owner: owner.toBase58(),
+    uiTokenAmount: {
+      amount: amount.toString(),
+      decimals: 6,
+      uiAmount: amount / 1e6,
+    },
+  });
+
+  return {
+    slot: 1,
+    blockTime: null,
+    transaction: { message, signatures: [] },
+    meta: {
+      err: null,
+      fee: FEE,
+      preBalances,
+      postBalances,
+      preTokenBalances: [usdcBalance(0)],
+      postTokenBalances: [usdcBalance(RECEIVED)],
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+function reconcile(response: VersionedTransactionResponse, owner: PublicKey) {
+  const connection = {
+    getTransaction: async () => response,
+  } as unknown as Connection;
+  return reconcileSwap(connection, "signature", {
+    owner,
+    inputMint: NATIVE_MINT,
+    outputMint: USDC_MINT,
+    quotedAmountIn: new BN(SWAPPED_IN),
+    quotedAmountOut: new BN(RECEIVED),
+    nativeEth: true,
+  });
+}
+
+describe("reconcileSwap", () => {
+  test("reads a nativeEth swap from the owner's lamports", async () => {
+    const owner = Keypair.generate().publicKey;
+    const reconciliation = await reconcile(nativeSwapResponse(owner, 0), owner);
+
+    assert.equal(reconciliation.amountIn.toNumber(), SWAPPED_IN);
+    assert.equal(reconciliation.amountOut.toNumber(), RECEIVED);
+    assert.equal(reconciliation.networkFee, FEE);
+    assert.equal(reconciliation.realizedSlippageBps, 0);
+  });
+
+  test("leaves WSOL the wallet held out of a nativeEth swap", async () => {
+    const owner = Keypair.generate().publicKey;
+    const held = 2 * LAMPORTS_PER_SOL + RENT;
+    const reconciliation = await reconcile(
+      nativeSwapResponse(owner, held),
+      owner
+    );
+
+    assert.equal(reconciliation.amountIn.toNumber(), SWAPPED_IN);
+    assert.equal(reconciliation.amountOut.toNumber(), RECEIVED);
+    assert.equal(reconciliation.realizedSlippageBps, 0);
+  });
+});
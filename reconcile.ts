@@ -0,0 +1,215 @@
+import {
+  Connection,
+  PublicKey,
+  TokenBalance,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { getAssociatedTokenAddressSync, NATIVE_MINT } from "@solana/spl-token";
+import BN from "bn.js";
+
+import { resolveToken } from "./token-registry";
+
+// Confirmed transactions can take a moment to show up in getTransaction
+const FETCH_ATTEMPTS = 5;
+const FETCH_RETRY_MS = 1000;
+
+// What a swap actually did, read back from its confirmed transaction
+export interface Reconciliation {
+  signature: string;
+  slot: number;
+  // Input spent and output received by the owner, in base units
+  amountIn: BN;
+  amountOut: BN;
+  // Network fee paid by the owner, in lamports
+  networkFee: number;
+  // Whole output tokens per whole input token
+  price: number;
+  quotedPrice: number;
+  // How much worse than quoted the swap filled, in bps. Negative is better.
+  realizedSlippageBps: number;
+}
+
+// The swap as quoted before sending, in base units
+export interface ReconcileParams {
+  owner: PublicKey;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  quotedAmountIn: BN;
+  quotedAmountOut: BN;
+  // Native ETH was wrapped and unwrapped inside the swap transaction
+  nativeEth?: boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchConfirmedTransaction(
+  connection: Connection,
+  signature: string
+): Promise<VersionedTransactionResponse> {
+  for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (transaction?.meta) {
+      return transaction;
+    }
+    await sleep(FETCH_RETRY_MS);
+  }
+  throw new Error(`Transaction ${signature} not found`);
+}
+
+// Owner's total balance of a mint across token balance entries, 0 without any
+function sumTokenBalance(
+  balances: TokenBalance[] | null | undefined,
+  owner: PublicKey,
+  mint: PublicKey
+): BN {
+  return (balances ?? [])
+    .filter(
+      (balance) =>
+        balance.owner === owner.toBase58() && balance.mint === mint.toBase58()
+    )
+    .reduce(
+      (total, balance) => total.add(new BN(balance.uiTokenAmount.amount)),
+      new BN(0)
+    );
+}
+
+/**
+ * Change in the owner's balance of a mint over a transaction. Native ETH is
+ * read from the owner's lamports with the network fee added back, since its
+ * WSOL account is closed within the transaction. Closing it also pays out
+ * whatever it held before, WSOL and rent, which is taken back out.
+ */
+function getBalanceChange(
+  transaction: VersionedTransactionResponse,
+  owner: PublicKey,
+  mint: PublicKey,
+  native: boolean
+): BN {
+  const meta = transaction.meta!;
+
+  if (native && mint.equals(NATIVE_MINT)) {
+    const accountKeys = transaction.transaction.message.getAccountKeys({
+      accountKeysFromLookups: meta.loadedAddresses,
+    });
+    const index = accountKeys.staticAccountKeys.findIndex((key) =>
+      key.equals(owner)
+    );
+    if (index === -1) {
+      throw new Error(`${owner.toBase58()} is not part of the transaction`);
+    }
+    const fee = index === 0 ? meta.fee : 0;
+
+    const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+    const wsolIndex = accountKeys
+      .keySegments()
+      .flat()
+      .findIndex((key) => key.equals(wsolAccount));
+    const heldBefore = wsolIndex === -1 ? 0 : meta.preBalances[wsolIndex];
+
+    return new BN(
+      meta.postBalances[index] - meta.preBalances[index] + fee - heldBefore
+    );
+  }
+
+  return sumTokenBalance(meta.postTokenBalances, owner, mint).sub(
+    sumTokenBalance(meta.preTokenBalances, owner, mint)
+  );
+}
+
+// Whole output tokens per whole input token
+async function getPrice(
+  connection: Connection,
+  inputMint: PublicKey,
+  outputMint: PublicKey,
+  amountIn: BN,
+  amountOut: BN
+): Promise<number> {
+  const inputDecimals = (await resolveToken(connection, inputMint)).decimals;
+  const outputDecimals = (await resolveToken(connection, outputMint)).decimals;
+  return (
+    (Number(amountOut.toString()) / Number(amountIn.toString())) *
+    10 ** (inputDecimals - outputDecimals)
+  );
+}
+
+/**
+ * Reads the owner's pre and post balances from a confirmed swap transaction
+ * and compares the amounts and price it actually got with the quote
+ * @throws if the transaction can't be fetched or failed
+ */
+export async function reconcileSwap(
+  connection: Connection,
+  signature: string,
+  params: ReconcileParams
+): Promise<Reconciliation> {
+  const { owner, inputMint, outputMint, nativeEth = false } = params;
+
+  const transaction = await fetchConfirmedTransaction(connection, signature);
+  if (transaction.meta!.err) {
+    throw new Error(
+      `Transaction ${signature} failed: ${JSON.stringify(transaction.meta!.err)}`
+    );
+  }
+
+  const amountIn = getBalanceChange(
+    transaction,
+    owner,
+    inputMint,
+    nativeEth
+  ).neg();
+  const amountOut = getBalanceChange(transaction, owner, outputMint, nativeEth);
+
+  return reconcileAmounts(connection, {
+    ...params,
+    signature,
+    slot: transaction.slot,
+    amountIn,
+    amountOut,
+    networkFee: transaction.meta!.fee,
+  });
+}
+
+/**
+ * Compares amounts a swap got, however they were read, with its quote. Dry
+ * runs pass the amounts of their simulation.
+ */
+export async function reconcileAmounts(
+  connection: Connection,
+  params: ReconcileParams &
+    Pick<
+      Reconciliation,
+      "signature" | "slot" | "amountIn" | "amountOut" | "networkFee"
+    >
+): Promise<Reconciliation> {
+  const { inputMint, outputMint, amountIn, amountOut } = params;
+
+  const quotedPrice = await getPrice(
+    connection,
+    inputMint,
+    outputMint,
+    params.quotedAmountIn,
+    params.quotedAmountOut
+  );
+  const price = amountIn.isZero()
+    ? 0
+    : await getPrice(connection, inputMint, outputMint, amountIn, amountOut);
+
+  return {
+    signature: params.signature,
+    slot: params.slot,
+    amountIn,
+    amountOut,
+    networkFee: params.networkFee,
+    price,
+    quotedPrice,
+    realizedSlippageBps:
+      quotedPrice > 0
+        ? Math.round(((quotedPrice - price) / quotedPrice) * 10000)
+        : 0,
+  };
+}
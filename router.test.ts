@@ -0,0 +1,119 @@
+import {
+  ETH_USDC_FIXTURE_PATH,
+  removeTestData,
+  USDC_MINT,
+} from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import { ETH_MINT, PoolWithAddress } from "./app";
+import { createFixtureMarket, loadFixture } from "./fixtures";
+import { stopPoolCache } from "./pool-cache";
+import { quotePool } from "./quote";
+import { buildPoolGraph, findBestRoute, findTokenPaths } from "./router";
+
+const ONE_ETH = new BN(1_000_000_000);
+// The fixture pool with the deepest liquidity and the lowest fee
+const BEST_POOL = "G8Skt6kgqVL9ocYn4aYVGs3gUg8EfQrTJAkA2qt3gcs8";
+
+let market: Market;
+
+before(async () => {
+  market = await createFixtureMarket(loadFixture(ETH_USDC_FIXTURE_PATH));
+});
+
+after(() => {
+  stopPoolCache();
+  removeTestData();
+});
+
+// A pool trading two tokens, only the mints matter to the graph
+function edge(tokenX: PublicKey, tokenY: PublicKey): PoolWithAddress {
+  return {
+    address: Keypair.generate().publicKey,
+    pool: { tokenX, tokenY },
+  } as PoolWithAddress;
+}
+
+describe("findTokenPaths", () => {
+  const [a, b, c, d, e] = Array.from(
+    { length: 5 },
+    () => Keypair.generate().publicKey
+  );
+  // a - b - c - d - e, and a shortcut a - c
+  const graph = buildPoolGraph([
+    edge(a, b),
+    edge(b, c),
+    edge(c, d),
+    edge(d, e),
+    edge(a, c),
+  ]);
+  const names = new Map(
+    [a, b, c, d, e].map((mint, i) => [mint.toBase58(), "abcde"[i]])
+  );
+  const spell = (paths: string[][]) =>
+    paths.map((path) => path.map((mint) => names.get(mint)).join(""));
+
+  test("lists every simple path, shortest first", () => {
+    assert.deepEqual(spell(findTokenPaths(graph, a, d)), ["acd", "abcd"]);
+  });
+
+  test("leaves out paths crossing more than maxHops pools", () => {
+    assert.deepEqual(spell(findTokenPaths(graph, a, e, 3)), ["acde"]);
+    assert.deepEqual(spell(findTokenPaths(graph, a, e, 2)), []);
+  });
+
+  test("finds nothing for a mint outside the graph", () => {
+    assert.deepEqual(
+      findTokenPaths(graph, a, Keypair.generate().publicKey),
+      []
+    );
+  });
+});
+
+describe("findBestRoute", () => {
+  test("routes a direct pair through the best pool", async () => {
+    const route = await findBestRoute(market, ETH_MINT, USDC_MINT, ONE_ETH);
+    assert.ok(route);
+
+    assert.deepEqual(
+      route.path.map((mint) => mint.toBase58()),
+      [ETH_MINT.toBase58(), USDC_MINT.toBase58()]
+    );
+    assert.equal(route.legs.length, 1);
+    const [leg] = route.legs;
+    assert.equal(leg.pool.address.toBase58(), BEST_POOL);
+    assert.equal(leg.xToY, false);
+
+    const quote = await quotePool(market, leg.pool, ETH_MINT, ONE_ETH);
+    assert.ok(route.amountIn.eq(ONE_ETH));
+    assert.ok(route.amountOut.eq(quote.amountOut));
+    assert.ok(leg.amountOut.eq(route.amountOut));
+  });
+
+  test("returns null when no pool can fill the amount", async () => {
+    const route = await findBestRoute(
+      market,
+      ETH_MINT,
+      USDC_MINT,
+      ONE_ETH.muln(1000)
+    );
+
+    assert.equal(route, null);
+  });
+
+  test("returns null for a pair without a path", async () => {
+    const route = await findBestRoute(
+      market,
+      ETH_MINT,
+      Keypair.generate().publicKey,
+      ONE_ETH
+    );
+
+    assert.equal(route, null);
+  });
+});
@@ -0,0 +1,397 @@
+import { PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { Market, Pair } from "@invariant-labs/sdk-eclipse";
+import {
+  SimulationStatus,
+  swapSimulation,
+} from "@invariant-labs/sdk-eclipse/lib/utils";
+import BN from "bn.js";
+
+import {
+  connection,
+  createAssociatedTokenAccount,
+  getAllPoolsWithAddresses,
+  getTokenBalance,
+  PoolWithAddress,
+  sendOrSimulate,
+  settledStatus,
+  TICK_CROSSES_PER_IX_NATIVE_TOKEN,
+} from "./app";
+import { getTokenProgram } from "./token-registry";
+import { getDefaultSigner, Signer } from "./signer";
+import { ComputeBudgetOptions } from "./compute-budget";
+import { recordJournalEntry } from "./journal";
+import { DEFAULT_SLIPPAGE_BPS } from "./config";
+import {
+  applySlippage,
+  assertMinAmountOut,
+  slippageToDecimal,
+} from "./slippage";
+import { isQuoteOk, quotePools } from "./quote";
+
+// Longest path the router will consider (number of pools crossed)
+export const MAX_ROUTE_HOPS = 3;
+
+// Upper bound on token paths simulated per quote, shortest paths first
+const MAX_ROUTE_CANDIDATES = 30;
+
+// One swap of a route, through a single pool
+export interface RouteLeg {
+  pool: PoolWithAddress;
+  tokenIn: PublicKey;
+  tokenOut: PublicKey;
+  xToY: boolean;
+  amountIn: BN;
+  amountOut: BN;
+  priceAfterSwap: BN;
+}
+
+export interface Route {
+  path: PublicKey[];
+  legs: RouteLeg[];
+  amountIn: BN;
+  amountOut: BN;
+}
+
+export interface RouteExecution {
+  route: Route;
+  signatures: string[];
+  amountIn: BN;
+  amountOut: BN;
+}
+
+// A route cut short after some of its legs landed. amountOut is what the
+// wallet holds of heldMint, the output of the last leg that landed.
+export interface PartialRouteExecution extends RouteExecution {
+  // Leg that failed, from 1
+  failedLeg: number;
+  heldMint: PublicKey;
+}
+
+// Thrown when a leg fails after earlier legs of the route landed
+export class RoutePartiallyExecutedError extends Error {
+  readonly execution: PartialRouteExecution;
+
+  constructor(execution: PartialRouteExecution, error: unknown) {
+    super(
+      `Route failed at leg ${execution.failedLeg}/${
+        execution.route.legs.length
+      }, the wallet holds ${execution.amountOut.toString()} of ${execution.heldMint.toBase58()}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+    this.name = "RoutePartiallyExecutedError";
+    this.execution = execution;
+  }
+}
+
+// Token graph: mint -> neighbouring mint -> pools connecting the two
+type PoolGraph = Map<string, Map<string, PoolWithAddress[]>>;
+
+function addEdge(
+  graph: PoolGraph,
+  from: PublicKey,
+  to: PublicKey,
+  pool: PoolWithAddress
+) {
+  const fromKey = from.toBase58();
+  const toKey = to.toBase58();
+  if (!graph.has(fromKey)) {
+    graph.set(fromKey, new Map());
+  }
+  const neighbours = graph.get(fromKey)!;
+  if (!neighbours.has(toKey)) {
+    neighbours.set(toKey, []);
+  }
+  neighbours.get(toKey)!.push(pool);
+}
+
+// Build the token graph from every pool in the market
+export function buildPoolGraph(pools: PoolWithAddress[]): PoolGraph {
+  const graph: PoolGraph = new Map();
+  for (const pool of pools) {
+    addEdge(graph, pool.pool.tokenX, pool.pool.tokenY, pool);
+    addEdge(graph, pool.pool.tokenY, pool.pool.tokenX, pool);
+  }
+  return graph;
+}
+
+/**
+ * Lists every simple token path from one mint to another that crosses at most
+ * maxHops pools, shortest paths first
+ */
+export function findTokenPaths(
+  graph: PoolGraph,
+  from: PublicKey,
+  to: PublicKey,
+  maxHops: number = MAX_ROUTE_HOPS
+): string[][] {
+  const target = to.toBase58();
+  const paths: string[][] = [];
+
+  const walk = (path: string[]) => {
+    const current = path[path.length - 1];
+    if (current === target) {
+      paths.push([...path]);
+      return;
+    }
+    if (path.length > maxHops) {
+      return;
+    }
+    for (const next of graph.get(current)?.keys() ?? []) {
+      if (!path.includes(next)) {
+        path.push(next);
+        walk(path);
+        path.pop();
+      }
+    }
+  };
+  walk([from.toBase58()]);
+
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+// Quote one leg against every pool for the token pair and keep the best output
+async function quoteLeg(
+  market: Market,
+  pools: PoolWithAddress[],
+  tokenIn: PublicKey,
+  tokenOut: PublicKey,
+  amountIn: BN
+): Promise<RouteLeg | null> {
+  const [best] = await quotePools(market, pools, tokenIn, amountIn);
+  if (!best || !isQuoteOk(best)) {
+    return null;
+  }
+
+  return {
+    pool: best.pool,
+    tokenIn,
+    tokenOut,
+    xToY: best.xToY,
+    amountIn,
+    amountOut: best.amountOut,
+    priceAfterSwap: best.priceAfterSwap,
+  };
+}
+
+/**
+ * Quotes every path of up to maxHops pools between two mints and returns the
+ * one with the best output, or null if no path can be simulated
+ */
+export async function findBestRoute(
+  market: Market,
+  from: PublicKey,
+  to: PublicKey,
+  amountIn: BN,
+  maxHops: number = MAX_ROUTE_HOPS
+): Promise<Route | null> {
+  const graph = buildPoolGraph(await getAllPoolsWithAddresses(market));
+  const paths = findTokenPaths(graph, from, to, maxHops).slice(
+    0,
+    MAX_ROUTE_CANDIDATES
+  );
+
+  let best: Route | null = null;
+  for (const path of paths) {
+    const legs: RouteLeg[] = [];
+    let legAmount = amountIn;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const pools = graph.get(path[i])!.get(path[i + 1])!;
+      const leg = await quoteLeg(
+        market,
+        pools,
+        new PublicKey(path[i]),
+        new PublicKey(path[i + 1]),
+        legAmount
+      );
+      if (!leg) {
+        break;
+      }
+      legs.push(leg);
+      legAmount = leg.amountOut;
+    }
+
+    if (legs.length !== path.length - 1) {
+      continue;
+    }
+
+    if (!best || legAmount.gt(best.amountOut)) {
+      best = {
+        path: path.map((mint) => new PublicKey(mint)),
+        legs,
+        amountIn,
+        amountOut: legAmount,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Executes a quoted route leg by leg. Every leg is re-simulated with the
+ * amount actually received from the previous leg and aborted if its output
+ * falls below the quote minus slippage. The route is rejected up front if its
+ * quoted output is below minAmountOut.
+ * @throws RoutePartiallyExecutedError if a leg fails after earlier ones landed
+ */
+export async function executeRoute(
+  market: Market,
+  route: Route,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  minAmountOut?: BN,
+  owner: Signer = getDefaultSigner(),
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<RouteExecution> {
+  assertMinAmountOut(route.amountOut, minAmountOut);
+  const slippage = slippageToDecimal(slippageBps);
+
+  // Make sure we can receive every intermediate and output token
+  for (const mint of route.path.slice(1)) {
+    await createAssociatedTokenAccount(mint, owner, computeBudget);
+  }
+
+  const signatures: string[] = [];
+  let legAmount = route.amountIn;
+
+  for (let i = 0; i < route.legs.length; i++) {
+    try {
+      const leg = route.legs[i];
+      const { pool, address } = leg.pool;
+      console.log(
+        `\n--- Leg ${i + 1}/${route.legs.length}: ${leg.tokenIn.toBase58()} -> ${leg.tokenOut.toBase58()} ---`
+      );
+
+      const simulation = await swapSimulation(
+        leg.xToY,
+        true, // byAmountIn
+        legAmount,
+        undefined,
+        slippage,
+        market,
+        address,
+        TICK_CROSSES_PER_IX_NATIVE_TOKEN
+      );
+      if (simulation.status !== SimulationStatus.Ok) {
+        throw new Error(`Leg ${i + 1} simulation failed: ${simulation.status}`);
+      }
+
+      // Scale the quoted output to the amount we actually have for this leg
+      const expectedOut = leg.amountOut.mul(legAmount).div(leg.amountIn);
+      const legMinAmountOut = applySlippage(expectedOut, slippageBps);
+      if (simulation.accumulatedAmountOut.lt(legMinAmountOut)) {
+        throw new Error(
+          `Leg ${i + 1} output ${simulation.accumulatedAmountOut.toString()} is below minimum ${legMinAmountOut.toString()}`
+        );
+      }
+      if (i === route.legs.length - 1) {
+        assertMinAmountOut(simulation.accumulatedAmountOut, minAmountOut);
+      }
+
+      const pair = new Pair(pool.tokenX, pool.tokenY, {
+        fee: pool.fee,
+        tickSpacing: pool.tickSpacing || 1,
+      });
+      const accountX = getAssociatedTokenAddressSync(
+        pair.tokenX,
+        owner.publicKey,
+        true,
+        await getTokenProgram(connection, pair.tokenX)
+      );
+      const accountY = getAssociatedTokenAddressSync(
+        pair.tokenY,
+        owner.publicKey,
+        true,
+        await getTokenProgram(connection, pair.tokenY)
+      );
+
+      const balanceBefore = await getTokenBalance(leg.tokenOut, owner.publicKey);
+      const swapTransaction = await market.swapTx({
+        xToY: leg.xToY,
+        estimatedPriceAfterSwap: simulation.priceAfterSwap,
+        pair,
+        amount: legAmount,
+        slippage,
+        byAmountIn: true,
+        accountX,
+        accountY,
+        owner: owner.publicKey,
+      });
+      const entry = {
+        type: "swap" as const,
+        wallet: owner.publicKey.toBase58(),
+        pool: address.toBase58(),
+        inputMint: leg.tokenIn.toBase58(),
+        outputMint: leg.tokenOut.toBase58(),
+        mode: "exactIn",
+        amountIn: legAmount.toString(),
+        fee: simulation.accumulatedFee.toString(),
+        slippageBps,
+      };
+      let txHash: string;
+      let estimated: boolean | undefined;
+      try {
+        // A dry run moves the paper balances read around it instead
+        ({ signature: txHash, estimated } = await sendOrSimulate(
+          swapTransaction,
+          owner,
+          computeBudget,
+          [leg.tokenIn, leg.tokenOut],
+          [
+            { mint: leg.tokenIn, delta: legAmount.neg() },
+            { mint: leg.tokenOut, delta: simulation.accumulatedAmountOut },
+          ]
+        ));
+      } catch (error) {
+        recordJournalEntry({
+          ...entry,
+          status: "failed",
+          amountOut: simulation.accumulatedAmountOut.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+      signatures.push(txHash);
+      console.log(`Leg ${i + 1} completed: ${txHash}`);
+
+      // Feed the amount actually received into the next leg
+      const balanceAfter = await getTokenBalance(leg.tokenOut, owner.publicKey);
+      legAmount = balanceAfter.sub(balanceBefore);
+      recordJournalEntry({
+        ...entry,
+        status: settledStatus(),
+        amountOut: legAmount.toString(),
+        signature: txHash,
+        estimated: estimated || undefined,
+      });
+      if (legAmount.lten(0)) {
+        throw new Error(`Leg ${i + 1} did not return any ${leg.tokenOut.toBase58()}`);
+      }
+    } catch (error) {
+      if (signatures.length === 0) {
+        throw error;
+      }
+      // Legs that landed left the wallet holding an intermediate token
+      throw new RoutePartiallyExecutedError(
+        {
+          route,
+          signatures,
+          amountIn: route.amountIn,
+          amountOut: legAmount,
+          failedLeg: i + 1,
+          heldMint: route.path[signatures.length],
+        },
+        error
+      );
+    }
+  }
+
+  return {
+    route,
+    signatures,
+    amountIn: route.amountIn,
+    amountOut: legAmount,
+  };
+}
@@ -0,0 +1,69 @@
+import { removeTestData } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { FailoverConnection } from "./rpc";
+
+const SLOT = 1234;
+
+const servers: http.Server[] = [];
+
+// Local endpoint answering getSlot, or every request with an error status
+function startEndpoint(status: number): Promise<string> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (status !== 200) {
+        res.writeHead(status).end(http.STATUS_CODES[status]);
+        return;
+      }
+      const { id } = JSON.parse(body);
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ jsonrpc: "2.0", id, result: SLOT }));
+    });
+  });
+  servers.push(server);
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+    )
+  );
+}
+
+let healthy: string;
+let failing: string;
+
+before(async () => {
+  healthy = await startEndpoint(200);
+  failing = await startEndpoint(503);
+});
+
+after(() => {
+  for (const server of servers) {
+    server.close();
+  }
+  removeTestData();
+});
+
+describe("FailoverConnection", () => {
+  test("moves on from an endpoint answering with a server error", async () => {
+    const connection = new FailoverConnection([failing, healthy]);
+
+    assert.equal(await connection.getSlot(), SLOT);
+    assert.equal(connection.rpcEndpoint, healthy);
+    const [failed] = connection.getEndpointStatus();
+    assert.equal(failed.failures, 1);
+    assert.match(failed.lastError ?? "", /^503/);
+  });
+
+  test("fails when every endpoint answers with a server error", async () => {
+    const connection = new FailoverConnection([failing, failing]);
+
+    await assert.rejects(connection.getSlot(), /503/);
+  });
+});
@@ -0,0 +1,182 @@
+import { Commitment, Connection } from "@solana/web3.js";
+
+import { RPC_MAX_SLOT_LAG, RPC_TIMEOUT_MS } from "./config";
+
+export interface RpcEndpointStatus {
+  url: string;
+  active: boolean;
+  failures: number;
+  // Latest slot this endpoint reported, 0 until it has answered
+  lastSlot: number;
+  lastError?: string;
+}
+
+export interface FailoverOptions {
+  timeoutMs?: number;
+  maxSlotLag?: number;
+}
+
+// Endpoint list and health shared by a connection's requests
+interface FailoverState {
+  endpoints: RpcEndpointStatus[];
+  current: number;
+  // Highest slot any endpoint has reported
+  highestSlot: number;
+  timeoutMs: number;
+  maxSlotLag: number;
+}
+
+// Slot a JSON-RPC response was served at, when the method reports one
+function readResponseSlot(requestBody: unknown, responseText: string) {
+  try {
+    const response = JSON.parse(responseText);
+    if (response?.result?.context?.slot !== undefined) {
+      return Number(response.result.context.slot);
+    }
+    const request = JSON.parse(String(requestBody));
+    if (
+      request?.method === "getSlot" &&
+      typeof response?.result === "number"
+    ) {
+      return response.result;
+    }
+  } catch (error) {
+    // Batch requests and non-JSON bodies carry no slot
+  }
+  return undefined;
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit | undefined,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a request to the current endpoint and moves on to the next one when
+ * it is rate limited, answers with a server error, times out, can't be
+ * reached or serves a stale slot
+ */
+async function failoverFetch(
+  state: FailoverState,
+  init: RequestInit | undefined
+): Promise<Response> {
+  let lastError: unknown;
+  // A stale answer is still better than none if every endpoint fails
+  let staleResponse: Response | undefined;
+
+  for (let attempt = 0; attempt < state.endpoints.length; attempt++) {
+    const endpoint = state.endpoints[state.current];
+    try {
+      const response = await fetchWithTimeout(
+        endpoint.url,
+        init,
+        state.timeoutMs
+      );
+      if (response.status === 429) {
+        throw new Error("429 Too Many Requests");
+      }
+      // Gateways and overloaded nodes answer 502, 503 and the like
+      if (response.status >= 500) {
+        throw new Error(`${response.status} ${response.statusText}`.trim());
+      }
+
+      const slot = readResponseSlot(init?.body, await response.clone().text());
+      if (slot !== undefined) {
+        endpoint.lastSlot = slot;
+        if (slot + state.maxSlotLag < state.highestSlot) {
+          staleResponse = response;
+          throw new Error(
+            `Stale slot ${slot}, other endpoints are at ${state.highestSlot}`
+          );
+        }
+        state.highestSlot = Math.max(state.highestSlot, slot);
+      }
+
+      endpoint.lastError = undefined;
+      return response;
+    } catch (error) {
+      lastError = error;
+      endpoint.failures++;
+      endpoint.lastError =
+        error instanceof Error ? error.message : String(error);
+      if (state.endpoints.length > 1) {
+        console.log(
+          `RPC ${endpoint.url} failed (${endpoint.lastError}), switching endpoint`
+        );
+      }
+      state.current = (state.current + 1) % state.endpoints.length;
+    }
+  }
+
+  if (staleResponse) {
+    return staleResponse;
+  }
+  throw lastError;
+}
+
+/**
+ * Connection that spreads requests over several RPC endpoints. It sticks to
+ * one endpoint and rotates to the next on 429s, 5xx errors, timeouts and
+ * stale slots.
+ * Subscriptions stay on the first endpoint's websocket.
+ */
+export class FailoverConnection extends Connection {
+  private readonly state: FailoverState;
+
+  constructor(
+    rpcUrls: string[],
+    commitment: Commitment = "confirmed",
+    options: FailoverOptions = {}
+  ) {
+    if (rpcUrls.length === 0) {
+      throw new Error("At least one RPC URL is required");
+    }
+
+    const state: FailoverState = {
+      endpoints: rpcUrls.map((url) => ({
+        url,
+        active: false,
+        failures: 0,
+        lastSlot: 0,
+      })),
+      current: 0,
+      highestSlot: 0,
+      timeoutMs: options.timeoutMs ?? RPC_TIMEOUT_MS,
+      maxSlotLag: options.maxSlotLag ?? RPC_MAX_SLOT_LAG,
+    };
+
+    super(rpcUrls[0], {
+      commitment,
+      // Rate limits rotate endpoints instead of waiting on the same one
+      disableRetryOnRateLimit: true,
+      fetch: (_url, init) => failoverFetch(state, init),
+    });
+    this.state = state;
+  }
+
+  // Endpoint currently serving requests
+  get rpcEndpoint(): string {
+    return this.state.endpoints[this.state.current].url;
+  }
+
+  getEndpointStatus(): RpcEndpointStatus[] {
+    return this.state.endpoints.map((endpoint, i) => ({
+      ...endpoint,
+      active: i === this.state.current,
+    }));
+  }
+}
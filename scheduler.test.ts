@@ -0,0 +1,54 @@
+import { removeTestData } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import fs from "fs";
+
+import { SCHEDULES_PATH } from "./config";
+import { getSchedule, Schedule } from "./scheduler";
+
+after(() => {
+  removeTestData();
+});
+
+describe("loadSchedules", () => {
+  test("fails a run interrupted while sending rather than rerun it", () => {
+    const scheduledAt = "2026-01-01T00:00:00.000Z";
+    const interrupted: Schedule = {
+      id: "interrupted",
+      cron: "0 * * * *",
+      inputMint: "So11111111111111111111111111111111111111112",
+      outputMint: "AKEWE7Bgh87GPp171b4cJPSSZfmZwQ3KaqYqXoKLNAEE",
+      amount: "1000000",
+      slippageBps: 50,
+      nativeEth: false,
+      enabled: true,
+      createdAt: scheduledAt,
+      updatedAt: scheduledAt,
+      nextRunAt: scheduledAt,
+      currentRunAt: scheduledAt,
+      attempt: 2,
+      runningSince: scheduledAt,
+      runs: [],
+    };
+    fs.writeFileSync(SCHEDULES_PATH, JSON.stringify([interrupted]));
+
+    const schedule = getSchedule("interrupted")!;
+    assert.equal(schedule.runningSince, undefined);
+    assert.equal(schedule.attempt, 1);
+    assert.ok(new Date(schedule.nextRunAt) > new Date());
+    assert.equal(schedule.currentRunAt, schedule.nextRunAt);
+    assert.equal(schedule.runs.length, 1);
+    assert.equal(schedule.runs[0].status, "failed");
+    assert.equal(schedule.runs[0].scheduledAt, scheduledAt);
+    assert.equal(schedule.runs[0].attempt, 2);
+    assert.match(schedule.runs[0].error ?? "", /Interrupted/);
+
+    // The recovered state is saved, a second restart changes nothing
+    const saved: Schedule[] = JSON.parse(
+      fs.readFileSync(SCHEDULES_PATH, "utf-8")
+    );
+    assert.equal(saved[0].runningSince, undefined);
+    assert.equal(saved[0].runs.length, 1);
+  });
+});
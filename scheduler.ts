@@ -0,0 +1,349 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { getMarket, swap } from "./app";
+import {
+  SCHEDULE_MAX_RETRIES,
+  SCHEDULE_RETRY_DELAY_MS,
+  SCHEDULER_TICK_MS,
+  SCHEDULES_PATH,
+} from "./config";
+import { getNextCronTime, parseCron } from "./cron";
+import { resolveSlippageBps } from "./slippage";
+import { mayHaveLanded } from "./transaction-sender";
+
+// Runs kept per schedule, oldest dropped first
+const MAX_RUN_HISTORY = 100;
+
+export interface ScheduleRun {
+  // Cron time the run belongs to, shared by its retries
+  scheduledAt: string;
+  startedAt: string;
+  finishedAt: string;
+  // 1 for the scheduled run, then 2, 3, ... for its retries
+  attempt: number;
+  status: "succeeded" | "failed";
+  signature?: string;
+  amountIn?: string;
+  amountOut?: string;
+  error?: string;
+}
+
+// A recurring exactIn swap. Amounts are base units written as strings.
+export interface Schedule {
+  id: string;
+  name?: string;
+  // Five-field cron expression in UTC, see cron.ts
+  cron: string;
+  inputMint: string;
+  outputMint: string;
+  // Input swapped on every run
+  amount: string;
+  slippageBps: number;
+  maxPriceImpactBps?: number;
+  nativeEth: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string;
+  // Cron time of the run in progress and its attempt, while retrying
+  currentRunAt: string;
+  attempt: number;
+  // Start of the attempt whose swap is being sent, saved before sending
+  runningSince?: string;
+  runs: ScheduleRun[];
+}
+
+export interface NewSchedule {
+  name?: string;
+  cron: string;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: BN;
+  slippageBps?: number;
+  maxPriceImpactBps?: number;
+  nativeEth?: boolean;
+}
+
+let schedules: Schedule[] | null = null;
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Schedules from SCHEDULES_PATH, read on first use
+function loadSchedules(): Schedule[] {
+  if (schedules) {
+    return schedules;
+  }
+  if (!fs.existsSync(SCHEDULES_PATH)) {
+    schedules = [];
+    return schedules;
+  }
+
+  try {
+    schedules = JSON.parse(
+      fs.readFileSync(SCHEDULES_PATH, "utf-8")
+    ) as Schedule[];
+  } catch (error) {
+    throw new Error(
+      `Failed to read schedules at ${SCHEDULES_PATH}. Error: ` + error
+    );
+  }
+  // A swap cut short by a restart may have landed, never send it twice
+  for (const schedule of schedules) {
+    if (schedule.runningSince) {
+      finishRun(schedule, {
+        scheduledAt: schedule.currentRunAt,
+        startedAt: schedule.runningSince,
+        finishedAt: new Date().toISOString(),
+        attempt: schedule.attempt,
+        status: "failed",
+        error: "Interrupted while running, check the trade journal",
+      });
+    }
+  }
+  return schedules;
+}
+
+// Writes every schedule through a temporary file, so a crash never leaves half a file
+function saveSchedules() {
+  fs.mkdirSync(path.dirname(SCHEDULES_PATH), { recursive: true });
+  const temporaryPath = `${SCHEDULES_PATH}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(schedules ?? [], null, 2));
+  fs.renameSync(temporaryPath, SCHEDULES_PATH);
+}
+
+function updateSchedule(schedule: Schedule, changes: Partial<Schedule>) {
+  Object.assign(schedule, changes, { updatedAt: new Date().toISOString() });
+  saveSchedules();
+}
+
+// Next cron time of a schedule after now
+function nextCronRun(cron: string, after: Date = new Date()): string {
+  return getNextCronTime(parseCron(cron), after).toISOString();
+}
+
+export function listSchedules(): Schedule[] {
+  return loadSchedules().slice();
+}
+
+export function getSchedule(id: string): Schedule | undefined {
+  return loadSchedules().find((schedule) => schedule.id === id);
+}
+
+// Stores an enabled schedule, first run at the next cron time
+export function createSchedule(params: NewSchedule): Schedule {
+  const { cron, inputMint, outputMint, amount, maxPriceImpactBps } = params;
+  const slippageBps = resolveSlippageBps(params.slippageBps);
+
+  // Throws on an invalid expression
+  const nextRunAt = nextCronRun(cron);
+  if (inputMint.equals(outputMint)) {
+    throw new Error("Cannot swap a token for itself");
+  }
+  if (amount.lten(0)) {
+    throw new Error("Schedule amount must be greater than 0");
+  }
+  if (
+    maxPriceImpactBps !== undefined &&
+    (!Number.isInteger(maxPriceImpactBps) || maxPriceImpactBps <= 0)
+  ) {
+    throw new Error("maxPriceImpactBps must be a positive integer");
+  }
+
+  const now = new Date().toISOString();
+  const schedule: Schedule = {
+    id: crypto.randomUUID(),
+    name: params.name,
+    cron: cron.trim(),
+    inputMint: inputMint.toBase58(),
+    outputMint: outputMint.toBase58(),
+    amount: amount.toString(),
+    slippageBps,
+    maxPriceImpactBps,
+    nativeEth: params.nativeEth ?? false,
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt,
+    currentRunAt: nextRunAt,
+    attempt: 1,
+    runs: [],
+  };
+
+  loadSchedules().push(schedule);
+  saveSchedules();
+  return schedule;
+}
+
+/**
+ * Pauses or resumes a schedule. Resuming skips the runs missed while paused.
+ * @returns The updated schedule, undefined if there is no schedule with this id
+ */
+export function setScheduleEnabled(
+  id: string,
+  enabled: boolean
+): Schedule | undefined {
+  const schedule = getSchedule(id);
+  if (!schedule) {
+    return undefined;
+  }
+  if (enabled && !schedule.enabled) {
+    const nextRunAt = nextCronRun(schedule.cron);
+    updateSchedule(schedule, {
+      enabled,
+      nextRunAt,
+      currentRunAt: nextRunAt,
+      attempt: 1,
+    });
+  } else {
+    updateSchedule(schedule, { enabled });
+  }
+  return schedule;
+}
+
+// Deletes a schedule and its run history, false if there is no schedule with this id
+export function deleteSchedule(id: string): boolean {
+  const all = loadSchedules();
+  const index = all.findIndex((schedule) => schedule.id === id);
+  if (index === -1) {
+    return false;
+  }
+  all.splice(index, 1);
+  saveSchedules();
+  return true;
+}
+
+/**
+ * Records a finished run and moves the schedule on: to a retry after
+ * SCHEDULE_RETRY_DELAY_MS when asked and retries are left, else to its next
+ * cron time. Runs missed while the server was down are not made up.
+ */
+function finishRun(schedule: Schedule, run: ScheduleRun, retry = false) {
+  const runs = [...schedule.runs, run].slice(-MAX_RUN_HISTORY);
+  if (retry && schedule.attempt <= SCHEDULE_MAX_RETRIES) {
+    updateSchedule(schedule, {
+      runs,
+      attempt: schedule.attempt + 1,
+      nextRunAt: new Date(Date.now() + SCHEDULE_RETRY_DELAY_MS).toISOString(),
+      runningSince: undefined,
+    });
+  } else {
+    const nextRunAt = nextCronRun(schedule.cron);
+    updateSchedule(schedule, {
+      runs,
+      attempt: 1,
+      nextRunAt,
+      currentRunAt: nextRunAt,
+      runningSince: undefined,
+    });
+  }
+}
+
+/**
+ * Swaps one run of a schedule and records its outcome. A run that failed
+ * before anything was sent, e.g. on a quote or an RPC error, is retried after
+ * SCHEDULE_RETRY_DELAY_MS, up to SCHEDULE_MAX_RETRIES times, before the
+ * schedule moves on to its next cron time. A run whose swap may have landed
+ * is never retried, nor one interrupted by a restart while sending.
+ */
+export async function runSchedule(schedule: Schedule): Promise<ScheduleRun> {
+  const startedAt = new Date().toISOString();
+  console.log(
+    `Schedule ${schedule.name ?? schedule.id} run ${schedule.currentRunAt}, attempt ${schedule.attempt}`
+  );
+  updateSchedule(schedule, { runningSince: startedAt });
+
+  let run: ScheduleRun;
+  let retryable = false;
+  try {
+    const result = await swap({
+      inputMint: new PublicKey(schedule.inputMint),
+      outputMint: new PublicKey(schedule.outputMint),
+      amount: new BN(schedule.amount),
+      slippageBps: schedule.slippageBps,
+      maxPriceImpactBps: schedule.maxPriceImpactBps,
+      nativeEth: schedule.nativeEth,
+      market: await getMarket(),
+    });
+    run = {
+      scheduledAt: schedule.currentRunAt,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      attempt: schedule.attempt,
+      status: "succeeded",
+      signature: result.signature,
+      amountIn: (
+        result.reconciliation?.amountIn ?? result.amountIn
+      ).toString(),
+      amountOut: (
+        result.reconciliation?.amountOut ?? result.amountOut
+      ).toString(),
+    };
+  } catch (error) {
+    retryable = !mayHaveLanded(error);
+    run = {
+      scheduledAt: schedule.currentRunAt,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      attempt: schedule.attempt,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  console.log(
+    `Schedule ${schedule.name ?? schedule.id} run ${run.status}${
+      run.error ? `: ${run.error}` : ""
+    }`
+  );
+
+  finishRun(schedule, run, retryable);
+  return run;
+}
+
+// Runs every enabled schedule that is due, one at a time
+export async function runDueSchedules(now: Date = new Date()) {
+  for (const schedule of loadSchedules()) {
+    if (
+      schedule.enabled &&
+      new Date(schedule.nextRunAt) <= now &&
+      // Deleted while an earlier schedule was running
+      getSchedule(schedule.id)
+    ) {
+      await runSchedule(schedule);
+    }
+  }
+}
+
+// Checks for due schedules every intervalMs until stopScheduler is called
+export function startScheduler(intervalMs: number = SCHEDULER_TICK_MS) {
+  if (schedulerTimer) {
+    return;
+  }
+
+  loadSchedules();
+  schedulerTimer = setInterval(async () => {
+    // A long swap may outlast the tick, never run a schedule twice at once
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runDueSchedules();
+    } catch (error) {
+      console.error("Failed to run schedules:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  console.log(`Scheduler checking for due swaps every ${intervalMs}ms`);
+}
+
+export function stopScheduler() {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -142,7 +142,30 @@ function createKeypairFromPrivateKey(privateKey) {
   }
 }
 
-async function initializeMarket() {
+// The market and its pools are loaded once and shared by every request
+let marketPromise = null;
+let poolsCache = null;
+const POOL_CACHE_TTL_MS = Number(process.env.POOL_CACHE_REFRESH_MS) || 15000;
+
+function initializeMarket() {
+  if (!marketPromise) {
+    marketPromise = buildMarket().catch((error) => {
+      marketPromise = null;
+      throw error;
+    });
+  }
+  return marketPromise;
+}
+
+// Every pool, refetched once the cached copy is older than POOL_CACHE_TTL_MS
+async function getAllPools(market) {
+  if (!poolsCache || Date.now() - poolsCache.fetchedAt > POOL_CACHE_TTL_MS) {
+    poolsCache = { pools: await market.getAllPools(), fetchedAt: Date.now() };
+  }
+  return poolsCache.pools;
+}
+
+async function buildMarket() {
   try {
     // Create a temporary keypair for market initialization (read-only operations)
     const tempKeypair = Keypair.generate();
@@ -213,7 +236,7 @@ async function createTokenAccountIfNeeded(mint, owner, keypair, tokenProgram) {
 }
 
 async function findBestPoolForPair(market, tokenA, tokenB) {
-  const allPools = await market.getAllPools();
+  const allPools = await getAllPools(market);
   
   // Filter pools for the token pair
   const relevantPools = allPools.filter(pool =>
@@ -227,6 +250,27 @@ async function findBestPoolForPair(market, tokenA, tokenB) {
   return relevantPools;
 }
 
+// Read what a confirmed swap actually moved from the owner's pre/post token balances
+async function getActualSwapAmounts(signature, owner, fromMint, toMint) {
+  const transaction = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0
+  });
+  if (!transaction || !transaction.meta) {
+    return null;
+  }
+
+  const sumBalances = (balances, mint) => (balances || [])
+    .filter(balance => balance.owner === owner.toBase58() && balance.mint === mint.toBase58())
+    .reduce((total, balance) => total.add(new BN(balance.uiTokenAmount.amount)), new BN(0));
+  const { preTokenBalances, postTokenBalances } = transaction.meta;
+
+  return {
+    amountIn: sumBalances(preTokenBalances, fromMint).sub(sumBalances(postTokenBalances, fromMint)),
+    amountOut: sumBalances(postTokenBalances, toMint).sub(sumBalances(preTokenBalances, toMint))
+  };
+}
+
 async function performTokenSwap(fromToken, toToken, amount, slippagePercent, privateKey) {
   const keypair = createKeypairFromPrivateKey(privateKey);
   const market = await initializeMarket();
@@ -311,6 +355,14 @@ async function performTokenSwap(fromToken, toToken, amount, slippagePercent, pri
         owner: keypair.publicKey
       }, keypair);
       
+      // The simulation is only an estimate, report what the transaction actually did
+      let actual = null;
+      try {
+        actual = await getActualSwapAmounts(txHash, keypair.publicKey, fromTokenInfo.mint, toTokenInfo.mint);
+      } catch (error) {
+        console.log(`Failed to read swap ${txHash}:`, error.message);
+      }
+      
       return {
         success: true,
         transactionHash: txHash,
@@ -320,6 +372,12 @@ async function performTokenSwap(fromToken, toToken, amount, slippagePercent, pri
         estimatedToAmount: simulation.accumulatedAmountOut ? 
           simulation.accumulatedAmountOut.div(new BN(10).pow(new BN(toTokenInfo.decimals))).toString() : 
           'Unknown',
+        actualFromAmount: actual ? (Number(actual.amountIn.toString()) / 10 ** fromTokenInfo.decimals).toString() : null,
+        actualToAmount: actual ? (Number(actual.amountOut.toString()) / 10 ** toTokenInfo.decimals).toString() : null,
+        actualPrice: actual && !actual.amountIn.isZero() ?
+          (Number(actual.amountOut.toString()) / 10 ** toTokenInfo.decimals) /
+            (Number(actual.amountIn.toString()) / 10 ** fromTokenInfo.decimals) :
+          null,
         poolUsed: {
           address: poolAddress.toString(),
           fee: pool.fee.toString(),
@@ -595,7 +653,7 @@ app.post('/api/wallet/info', async (req, res) => {
 app.get('/api/pools/all', async (req, res) => {
   try {
     const market = await initializeMarket();
-    const allPools = await market.getAllPools();
+    const allPools = await getAllPools(market);
     
     const poolsData = allPools.map(pool => ({
       tokenX: pool.tokenX.toString(),
@@ -724,7 +782,7 @@ app.post('/api/swap', async (req, res) => {
 app.get('/api/market/stats', async (req, res) => {
   try {
     const market = await initializeMarket();
-    const allPools = await market.getAllPools();
+    const allPools = await getAllPools(market);
     
     // Count pools by token
     const tokenStats = {};
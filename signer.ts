@@ -0,0 +1,232 @@
+import { Connection, Keypair, PublicKey, Transaction } from "@solana/web3.js";
+import base58 from "bs58";
+import crypto from "crypto";
+import fs from "fs";
+
+import { getStoredKeypair } from "./get-keypair";
+import { applyComputeBudget, ComputeBudgetOptions } from "./compute-budget";
+import { sendTransaction, TransactionFailedError } from "./transaction-sender";
+import {
+  SIGNER_BACKEND,
+  WALLET_KEYPAIR_PATH,
+  WALLET_KEYSTORE_PATH,
+} from "./config";
+
+// Anything that can sign transactions for a wallet
+export interface Signer {
+  publicKey: PublicKey;
+  // Adds this wallet's signature to a transaction whose blockhash and fee payer are set
+  signTransaction(transaction: Transaction): Promise<Transaction>;
+}
+
+// Password-encrypted keypair, stored as JSON
+export interface Keystore {
+  version: 1;
+  publicKey: string;
+  crypto: {
+    kdf: "scrypt";
+    kdfparams: { n: number; r: number; p: number; dklen: number; salt: string };
+    cipher: "aes-256-gcm";
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+  };
+}
+
+// scrypt cost parameters for new keystores
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+
+// Signer for a keypair held in memory
+export function keypairSigner(keypair: Keypair): Signer {
+  return {
+    publicKey: keypair.publicKey,
+    async signTransaction(transaction: Transaction) {
+      transaction.partialSign(keypair);
+      return transaction;
+    },
+  };
+}
+
+/**
+ * Signer for a base58 secret key stored in an environment variable
+ * @param name Name of the variable, WALLET_PRIVATE_KEY by default
+ */
+export function loadEnvSigner(name: string = "WALLET_PRIVATE_KEY"): Signer {
+  const secretKey = process.env[name];
+  if (!secretKey) {
+    throw new Error(`${name} not found in .env file`);
+  }
+  return keypairSigner(Keypair.fromSecretKey(base58.decode(secretKey)));
+}
+
+// Signer for a plaintext JSON keypair file, as written by generate-keypair.ts
+export function loadFileSigner(keyPath: string = WALLET_KEYPAIR_PATH): Signer {
+  return keypairSigner(getStoredKeypair(keyPath));
+}
+
+function deriveKey(
+  password: string,
+  params: Keystore["crypto"]["kdfparams"]
+): Buffer {
+  return crypto.scryptSync(
+    password,
+    Buffer.from(params.salt, "hex"),
+    params.dklen,
+    {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      // scrypt needs 128 * N * r bytes, above Node's 32 MiB default
+      maxmem: 256 * params.n * params.r,
+    }
+  );
+}
+
+// Encrypt a keypair with a password, using scrypt for the key and AES-256-GCM
+export function encryptKeystore(keypair: Keypair, password: string): Keystore {
+  const kdfparams = {
+    n: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    dklen: KEY_LENGTH,
+    salt: crypto.randomBytes(32).toString("hex"),
+  };
+  const iv = crypto.randomBytes(12);
+
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    deriveKey(password, kdfparams),
+    iv
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(keypair.secretKey)),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    crypto: {
+      kdf: "scrypt",
+      kdfparams,
+      cipher: "aes-256-gcm",
+      iv: iv.toString("hex"),
+      authTag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+    },
+  };
+}
+
+/**
+ * Decrypts a keystore back into its keypair
+ * @throws if the password is wrong or the keystore was tampered with
+ */
+export function decryptKeystore(keystore: Keystore, password: string): Keypair {
+  if (
+    keystore.version !== 1 ||
+    keystore.crypto.kdf !== "scrypt" ||
+    keystore.crypto.cipher !== "aes-256-gcm"
+  ) {
+    throw new Error("Unsupported keystore format");
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(password, keystore.crypto.kdfparams),
+    Buffer.from(keystore.crypto.iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(keystore.crypto.authTag, "hex"));
+
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([
+      decipher.update(Buffer.from(keystore.crypto.ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    throw new Error("Failed to decrypt keystore, wrong password?");
+  }
+
+  const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error("Keystore public key doesn't match its secret key");
+  }
+  return keypair;
+}
+
+/**
+ * Signer for a password-encrypted keystore file
+ * @param password Defaults to WALLET_KEYSTORE_PASSWORD
+ */
+export function loadKeystoreSigner(
+  keystorePath: string = WALLET_KEYSTORE_PATH,
+  password: string | undefined = process.env.WALLET_KEYSTORE_PASSWORD
+): Signer {
+  if (!password) {
+    throw new Error("WALLET_KEYSTORE_PASSWORD not found in .env file");
+  }
+
+  let keystore: Keystore;
+  try {
+    keystore = JSON.parse(fs.readFileSync(keystorePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read keystore at ${keystorePath}. Error: ` + error
+    );
+  }
+  return keypairSigner(decryptKeystore(keystore, password));
+}
+
+// Signer for the backend picked with SIGNER_BACKEND
+export function loadSigner(backend: string = SIGNER_BACKEND): Signer {
+  switch (backend) {
+    case "env":
+      return loadEnvSigner();
+    case "file":
+      return loadFileSigner();
+    case "keystore":
+      return loadKeystoreSigner();
+    default:
+      throw new Error(
+        `Unknown SIGNER_BACKEND "${backend}", expected env, file or keystore`
+      );
+  }
+}
+
+let defaultSigner: Signer | null = null;
+
+// The wallet the bot trades with, loaded on first use
+export function getDefaultSigner(): Signer {
+  if (!defaultSigner) {
+    defaultSigner = loadSigner();
+  }
+  return defaultSigner;
+}
+
+/**
+ * Adds the compute budget and signs a transaction with every signer, the
+ * first one paying the fee, then sends it until it is confirmed
+ * @throws TransactionFailedError if it fails on chain or its blockhash expires
+ */
+export async function signAndSendTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  signers: Signer[],
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<string> {
+  await applyComputeBudget(
+    connection,
+    transaction,
+    signers[0].publicKey,
+    computeBudget
+  );
+
+  const outcome = await sendTransaction(connection, transaction, signers);
+  if (outcome.status === "failed") {
+    throw new TransactionFailedError(outcome);
+  }
+  return outcome.signature;
+}
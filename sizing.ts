@@ -0,0 +1,137 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import { connection } from "./app";
+import { MAX_NOTIONAL_USD } from "./config";
+import { getUsdPrice } from "./pricing";
+import { resolveToken } from "./token-registry";
+
+// How much of a balance a trade uses
+export type SizingStrategy =
+  // A fixed amount in base units, whatever the balance
+  | { kind: "fixed"; amount: BN }
+  // A percentage of the balance
+  | { kind: "percent"; percent: number }
+  // The whole balance except a reserve in base units, e.g. lamports kept for fees
+  | { kind: "allBut"; reserve: BN };
+
+export interface SizingOptions {
+  strategy: SizingStrategy;
+  // Largest trade value in USD, priced from the token's stablecoin pool
+  maxNotionalUsd?: number;
+}
+
+/**
+ * Parses a sizing strategy as written on the command line or in a request:
+ * "fixed:<amount>", "percent:<0-100>" or "all-but:<reserve>", with amounts
+ * in base units
+ */
+export function parseSizingStrategy(value: string): SizingStrategy {
+  const [kind, argument = ""] = value.trim().split(":");
+
+  switch (kind) {
+    case "fixed":
+      if (!/^\d+$/.test(argument) || new BN(argument).isZero()) {
+        throw new Error("fixed sizing needs a positive amount in base units");
+      }
+      return { kind: "fixed", amount: new BN(argument) };
+    case "percent": {
+      const percent = Number(argument);
+      if (argument === "" || !(percent > 0 && percent <= 100)) {
+        throw new Error("percent sizing needs a percentage above 0 and up to 100");
+      }
+      return { kind: "percent", percent };
+    }
+    case "all-but":
+      if (!/^\d+$/.test(argument)) {
+        throw new Error("all-but sizing needs a reserve in base units");
+      }
+      return { kind: "allBut", reserve: new BN(argument) };
+    default:
+      throw new Error(
+        `Unknown sizing "${value}", expected fixed:<amount>, percent:<0-100> or all-but:<reserve>`
+      );
+  }
+}
+
+export function formatSizingStrategy(strategy: SizingStrategy): string {
+  switch (strategy.kind) {
+    case "fixed":
+      return `fixed:${strategy.amount.toString()}`;
+    case "percent":
+      return `percent:${strategy.percent}`;
+    case "allBut":
+      return `all-but:${strategy.reserve.toString()}`;
+  }
+}
+
+// Sizing options from a strategy string, with the configured notional cap by default
+export function parseSizingOptions(
+  value: string,
+  maxNotionalUsd: number | undefined = MAX_NOTIONAL_USD
+): SizingOptions {
+  if (maxNotionalUsd !== undefined && !(maxNotionalUsd > 0)) {
+    throw new Error("maxNotionalUsd must be a positive number");
+  }
+  return { strategy: parseSizingStrategy(value), maxNotionalUsd };
+}
+
+// Amount a strategy takes out of a balance, never negative
+export function applySizingStrategy(
+  strategy: SizingStrategy,
+  balance: BN
+): BN {
+  switch (strategy.kind) {
+    case "fixed":
+      return strategy.amount;
+    case "percent":
+      // Hundredths of a percent, so fractional percentages keep their precision
+      return balance.muln(Math.round(strategy.percent * 100)).divn(10000);
+    case "allBut":
+      return balance.gt(strategy.reserve)
+        ? balance.sub(strategy.reserve)
+        : new BN(0);
+  }
+}
+
+/**
+ * Lowers an amount of a token so its USD value stays within maxNotionalUsd
+ * @throws if the token has no stablecoin pool to price it
+ */
+export async function capToMaxNotional(
+  market: Market,
+  mint: PublicKey,
+  amount: BN,
+  maxNotionalUsd: number
+): Promise<BN> {
+  const price = await getUsdPrice(market, mint);
+  if (price === null || !(price > 0)) {
+    throw new Error(
+      `No USD price for ${mint.toBase58()}, cannot apply a notional cap`
+    );
+  }
+
+  const { decimals } = await resolveToken(connection, mint);
+  const maxAmount = new BN(
+    BigInt(Math.floor((maxNotionalUsd / price) * 10 ** decimals)).toString()
+  );
+  return BN.min(amount, maxAmount);
+}
+
+/**
+ * Sizes a trade of a token from the available balance, then applies the
+ * notional cap if one is set
+ */
+export async function sizeTrade(
+  market: Market,
+  mint: PublicKey,
+  balance: BN,
+  options: SizingOptions
+): Promise<BN> {
+  const amount = applySizingStrategy(options.strategy, balance);
+  if (options.maxNotionalUsd === undefined || amount.isZero()) {
+    return amount;
+  }
+  return capToMaxNotional(market, mint, amount, options.maxNotionalUsd);
+}
@@ -0,0 +1,65 @@
+import { removeTestData } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import BN from "bn.js";
+
+import { DEFAULT_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS } from "./config";
+import {
+  applySlippage,
+  applySlippageToInput,
+  assertMinAmountOut,
+  MinAmountOutError,
+  resolveSlippageBps,
+} from "./slippage";
+
+after(() => {
+  removeTestData();
+});
+
+describe("resolveSlippageBps", () => {
+  test("falls back to the configured default", () => {
+    assert.equal(resolveSlippageBps(), DEFAULT_SLIPPAGE_BPS);
+  });
+
+  test("accepts 0 up to the configured maximum", () => {
+    assert.equal(resolveSlippageBps(0), 0);
+    assert.equal(resolveSlippageBps(MAX_SLIPPAGE_BPS), MAX_SLIPPAGE_BPS);
+  });
+
+  test("rejects negative, fractional and excessive tolerances", () => {
+    for (const slippageBps of [-1, 0.5, MAX_SLIPPAGE_BPS + 1, NaN]) {
+      assert.throws(
+        () => resolveSlippageBps(slippageBps),
+        /Slippage must be an integer/
+      );
+    }
+  });
+});
+
+describe("assertMinAmountOut", () => {
+  test("passes an output at or above the minimum", () => {
+    assertMinAmountOut(new BN(100), new BN(100));
+    assertMinAmountOut(new BN(101), new BN(100));
+    assertMinAmountOut(new BN(0));
+  });
+
+  test("rejects an output below the minimum", () => {
+    assert.throws(
+      () => assertMinAmountOut(new BN(99), new BN(100)),
+      (error: unknown) =>
+        error instanceof MinAmountOutError &&
+        error.message === "Expected output 99 is below minimum 100"
+    );
+  });
+});
+
+describe("applySlippage", () => {
+  test("rounds the minimum output down", () => {
+    assert.ok(applySlippage(new BN(999), 50).eqn(994));
+  });
+
+  test("rounds the maximum input up", () => {
+    assert.ok(applySlippageToInput(new BN(999), 50).eqn(1004));
+  });
+});
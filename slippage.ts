@@ -0,0 +1,64 @@
+import BN from "bn.js";
+import { toDecimal } from "@invariant-labs/sdk-eclipse/lib/utils";
+
+import { DEFAULT_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS } from "./config";
+
+const BPS_DENOMINATOR = 10000;
+
+/**
+ * Validates a slippage tolerance in basis points (1 bps = 0.01%)
+ * @param slippageBps Tolerance to validate, the configured default if omitted
+ * @returns The validated tolerance
+ */
+export function resolveSlippageBps(slippageBps?: number): number {
+  if (slippageBps === undefined || slippageBps === null) {
+    return DEFAULT_SLIPPAGE_BPS;
+  }
+  if (
+    !Number.isInteger(slippageBps) ||
+    slippageBps < 0 ||
+    slippageBps > MAX_SLIPPAGE_BPS
+  ) {
+    throw new Error(
+      `Slippage must be an integer between 0 and ${MAX_SLIPPAGE_BPS} bps, got ${slippageBps}`
+    );
+  }
+  return slippageBps;
+}
+
+// Convert basis points to the Decimal the Invariant SDK expects
+export function slippageToDecimal(slippageBps: number): BN {
+  return toDecimal(slippageBps, 4);
+}
+
+// Lowest acceptable output for an expected amount under a slippage tolerance
+export function applySlippage(amount: BN, slippageBps: number): BN {
+  return amount.muln(BPS_DENOMINATOR - slippageBps).divn(BPS_DENOMINATOR);
+}
+
+// Highest acceptable input for an expected amount under a slippage tolerance
+export function applySlippageToInput(amount: BN, slippageBps: number): BN {
+  return amount
+    .muln(BPS_DENOMINATOR + slippageBps)
+    .addn(BPS_DENOMINATOR - 1)
+    .divn(BPS_DENOMINATOR);
+}
+
+// Thrown when a swap is rejected because its expected output is too low
+export class MinAmountOutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MinAmountOutError";
+  }
+}
+
+/**
+ * Rejects a swap whose simulated output is below the caller's minimum
+ */
+export function assertMinAmountOut(amountOut: BN, minAmountOut?: BN) {
+  if (minAmountOut && amountOut.lt(minAmountOut)) {
+    throw new MinAmountOutError(
+      `Expected output ${amountOut.toString()} is below minimum ${minAmountOut.toString()}`
+    );
+  }
+}
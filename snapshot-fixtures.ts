@@ -0,0 +1,59 @@
+import path from "path";
+
+import {
+  connection,
+  getMarket,
+  getPoolsForTokenPair,
+  PoolWithAddress,
+} from "./app";
+import { saveFixture, snapshotPools } from "./fixtures";
+import { resolveTokenInput } from "./token-registry";
+import { getCliOption } from "./cli";
+
+// Snapshot the pools of one or more pairs to a fixture, e.g.
+//   ts-node snapshot-fixtures.ts ETH/USDC ETH/USDT --out fixtures/eth-stables.json
+async function main() {
+  const outOption = getCliOption("out");
+  const pairs = process.argv
+    .slice(2)
+    .filter((arg, i, args) => arg !== "--out" && args[i - 1] !== "--out");
+  if (pairs.length === 0) {
+    throw new Error(
+      "Usage: ts-node snapshot-fixtures.ts TOKEN_A/TOKEN_B [...] [--out file.json]"
+    );
+  }
+
+  const market = await getMarket();
+  const pools: PoolWithAddress[] = [];
+  for (const pair of pairs) {
+    const [tokenA, tokenB] = pair.split("/");
+    if (!tokenA || !tokenB) {
+      throw new Error(`Pair "${pair}" must look like TOKEN_A/TOKEN_B`);
+    }
+    const mintA = (await resolveTokenInput(connection, tokenA)).mint;
+    const mintB = (await resolveTokenInput(connection, tokenB)).mint;
+    const pairPools = await getPoolsForTokenPair(market, mintA, mintB);
+    console.log(`${pair}: ${pairPools.length} pools`);
+    pools.push(...pairPools);
+  }
+
+  const fixture = await snapshotPools(connection, market, pools);
+  const fixturePath =
+    outOption ??
+    path.join(
+      __dirname,
+      "fixtures",
+      `${pairs.join("_").replace(/\//g, "-").toLowerCase()}.json`
+    );
+  saveFixture(fixture, fixturePath);
+  console.log(
+    `Saved ${fixture.pools.length} pools and ${fixture.accounts.length} accounts at slot ${fixture.slot} to ${fixturePath}`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Snapshot failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,98 @@
+import {
+  ETH_USDC_FIXTURE_PATH,
+  removeTestData,
+  USDC_MINT,
+} from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { Keypair } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import { ETH_MINT } from "./app";
+import { createFixtureMarket, loadFixture } from "./fixtures";
+import { stopPoolCache } from "./pool-cache";
+import { planSplit } from "./split";
+
+const ONE_ETH = new BN(1_000_000_000);
+
+let market: Market;
+
+before(async () => {
+  market = await createFixtureMarket(loadFixture(ETH_USDC_FIXTURE_PATH));
+});
+
+after(() => {
+  stopPoolCache();
+  removeTestData();
+});
+
+describe("planSplit", () => {
+  test("allocates the whole amount across the pair's pools", async () => {
+    const plan = await planSplit(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+    assert.ok(plan);
+
+    assert.ok(plan.amountIn.eq(ONE_ETH));
+    const allocatedIn = plan.allocations.reduce(
+      (sum, { quote }) => sum.add(quote.amountIn),
+      new BN(0)
+    );
+    const allocatedOut = plan.allocations.reduce(
+      (sum, { quote }) => sum.add(quote.amountOut),
+      new BN(0)
+    );
+    assert.ok(allocatedIn.eq(ONE_ETH));
+    assert.ok(allocatedOut.eq(plan.totalAmountOut));
+    const shares = plan.allocations.reduce((sum, { share }) => sum + share, 0);
+    assert.ok(Math.abs(shares - 100) < 0.05);
+  });
+
+  test("does no worse than the best single pool", async () => {
+    const plan = await planSplit(market, ETH_MINT, [USDC_MINT], ONE_ETH);
+    assert.ok(plan);
+
+    assert.ok(plan.bestSinglePoolAmountOut.gtn(0));
+    assert.ok(plan.totalAmountOut.gte(plan.bestSinglePoolAmountOut));
+  });
+
+  test("lists the largest allocation first", async () => {
+    const plan = await planSplit(market, ETH_MINT, [USDC_MINT], ONE_ETH, 20);
+    assert.ok(plan);
+
+    const amounts = plan.allocations.map(({ quote }) => quote.amountIn);
+    for (let i = 1; i < amounts.length; i++) {
+      assert.ok(amounts[i - 1].gte(amounts[i]));
+    }
+  });
+
+  test("plans a single step for an amount below the step count", async () => {
+    const plan = await planSplit(market, ETH_MINT, [USDC_MINT], new BN(5));
+    assert.ok(plan);
+
+    assert.equal(plan.allocations.length, 1);
+    assert.ok(plan.amountIn.eqn(5));
+  });
+
+  test("returns null when no pool can take any of the order", async () => {
+    const plan = await planSplit(
+      market,
+      ETH_MINT,
+      [USDC_MINT],
+      ONE_ETH.muln(100000)
+    );
+
+    assert.equal(plan, null);
+  });
+
+  test("returns null for a pair without pools", async () => {
+    const plan = await planSplit(
+      market,
+      ETH_MINT,
+      [Keypair.generate().publicKey],
+      ONE_ETH
+    );
+
+    assert.equal(plan, null);
+  });
+});
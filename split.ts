@@ -0,0 +1,214 @@
+import { PublicKey } from "@solana/web3.js";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import {
+  createAssociatedTokenAccount,
+  executeQuote,
+  getTokenBalance,
+} from "./app";
+import { DEFAULT_SLIPPAGE_BPS } from "./config";
+import { ComputeBudgetOptions } from "./compute-budget";
+import { assertMinAmountOut } from "./slippage";
+import { findCandidatePools, isQuoteOk, PoolQuote, quotePool } from "./quote";
+
+// Number of equal chunks the order is cut into when planning a split
+export const DEFAULT_SPLIT_STEPS = 10;
+
+// Most steps a plan may use, each one simulates a swap on every pool
+export const MAX_SPLIT_STEPS = 50;
+
+// Part of a split order routed through one pool
+export interface SplitAllocation {
+  quote: PoolQuote;
+  // Share of the planned input amount, in percent
+  share: number;
+}
+
+export interface SplitPlan {
+  tokenIn: PublicKey;
+  amountIn: BN;
+  allocations: SplitAllocation[];
+  totalAmountOut: BN;
+  // Output of the best single pool for the same amount, for comparison
+  bestSinglePoolAmountOut: BN;
+}
+
+export interface SplitFill {
+  allocation: SplitAllocation;
+  signature?: string;
+  error?: string;
+}
+
+export interface SplitExecution {
+  plan: SplitPlan;
+  fills: SplitFill[];
+  filledAmountIn: BN;
+  // Amount actually received, per output mint
+  filledAmountOut: Record<string, string>;
+}
+
+/**
+ * Plans how to spread an order across every pool pairing the input token with
+ * any of the output tokens. The order is cut into equal chunks and each chunk
+ * goes to the pool with the best simulated marginal output at that point.
+ */
+export async function planSplit(
+  market: Market,
+  tokenIn: PublicKey,
+  tokensOut: PublicKey[],
+  amountIn: BN,
+  steps: number = DEFAULT_SPLIT_STEPS,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<SplitPlan | null> {
+  const pools = await findCandidatePools(market, tokenIn, tokensOut);
+  if (pools.length === 0) {
+    return null;
+  }
+
+  const chunk = amountIn.divn(steps);
+  if (chunk.isZero()) {
+    steps = 1;
+  }
+
+  // Current allocation per pool, keyed by pool address
+  const allocated = new Map<string, PoolQuote>();
+
+  for (let step = 0; step < steps; step++) {
+    const size =
+      step === steps - 1 ? amountIn.sub(chunk.muln(steps - 1)) : chunk;
+
+    const candidates = await Promise.all(
+      pools.map((pool) => {
+        const current = allocated.get(pool.address.toBase58());
+        const amount = current ? current.amountIn.add(size) : size;
+        return quotePool(market, pool, tokenIn, amount, slippageBps);
+      })
+    );
+
+    let best: PoolQuote | null = null;
+    let bestGain = new BN(0);
+    for (const candidate of candidates) {
+      if (!isQuoteOk(candidate)) {
+        continue;
+      }
+      const current = allocated.get(candidate.pool.address.toBase58());
+      const gain = current
+        ? candidate.amountOut.sub(current.amountOut)
+        : candidate.amountOut;
+      if (!best || gain.gt(bestGain)) {
+        best = candidate;
+        bestGain = gain;
+      }
+    }
+
+    // No pool can absorb the rest of the order
+    if (!best) {
+      break;
+    }
+    allocated.set(best.pool.address.toBase58(), best);
+  }
+
+  if (allocated.size === 0) {
+    return null;
+  }
+
+  const quotes = Array.from(allocated.values()).sort((a, b) =>
+    b.amountIn.cmp(a.amountIn)
+  );
+  const plannedAmountIn = quotes.reduce(
+    (sum, quote) => sum.add(quote.amountIn),
+    new BN(0)
+  );
+  const totalAmountOut = quotes.reduce(
+    (sum, quote) => sum.add(quote.amountOut),
+    new BN(0)
+  );
+
+  const singles = await Promise.all(
+    pools.map((pool) =>
+      quotePool(market, pool, tokenIn, plannedAmountIn, slippageBps)
+    )
+  );
+  const bestSinglePoolAmountOut = singles
+    .filter(isQuoteOk)
+    .reduce(
+      (best, single) => (single.amountOut.gt(best) ? single.amountOut : best),
+      new BN(0)
+    );
+
+  return {
+    tokenIn,
+    amountIn: plannedAmountIn,
+    allocations: quotes.map((quote) => ({
+      quote,
+      share:
+        quote.amountIn.muln(10000).div(plannedAmountIn).toNumber() / 100,
+    })),
+    totalAmountOut,
+    bestSinglePoolAmountOut,
+  };
+}
+
+/**
+ * Executes a split plan with one swap per allocation and reports the amounts
+ * actually filled. A failed allocation doesn't stop the remaining ones.
+ * The plan is rejected up front if its total output is below minAmountOut.
+ */
+export async function executeSplitPlan(
+  market: Market,
+  plan: SplitPlan,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  minAmountOut?: BN,
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<SplitExecution> {
+  assertMinAmountOut(plan.totalAmountOut, minAmountOut);
+
+  const outputMints = Array.from(
+    new Set(plan.allocations.map(({ quote }) => quote.tokenOut.toBase58()))
+  ).map((mint) => new PublicKey(mint));
+
+  // Make sure we can receive every output token
+  const balancesBefore = new Map<string, BN>();
+  for (const mint of outputMints) {
+    await createAssociatedTokenAccount(mint, undefined, computeBudget);
+    balancesBefore.set(mint.toBase58(), await getTokenBalance(mint));
+  }
+
+  const fills: SplitFill[] = [];
+  let filledAmountIn = new BN(0);
+  for (const allocation of plan.allocations) {
+    const { quote } = allocation;
+    console.log(
+      `Executing ${allocation.share}% (${quote.amountIn.toString()}) on pool ${quote.pool.address.toBase58()}`
+    );
+    try {
+      const { signature } = await executeQuote(market, quote, {
+        slippageBps,
+        computeBudget,
+      });
+      fills.push({ allocation, signature });
+      filledAmountIn = filledAmountIn.add(quote.amountIn);
+      console.log(`Split swap completed: ${signature}`);
+    } catch (error) {
+      console.log(
+        `Split swap on pool ${quote.pool.address.toBase58()} failed:`,
+        error
+      );
+      fills.push({
+        allocation,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const filledAmountOut: Record<string, string> = {};
+  for (const mint of outputMints) {
+    const balanceAfter = await getTokenBalance(mint);
+    filledAmountOut[mint.toBase58()] = balanceAfter
+      .sub(balancesBefore.get(mint.toBase58())!)
+      .toString();
+  }
+
+  return { plan, fills, filledAmountIn, filledAmountOut };
+}
@@ -0,0 +1,41 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import base58 from "bs58";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Imported by every test before anything that reads config.ts, so tests keep
+// their journal, orders and schedules in a temporary directory, not data/
+export const TEST_DATA_DIR = fs.mkdtempSync(
+  path.join(os.tmpdir(), "invariant-trader-test-")
+);
+export const TEST_JOURNAL_PATH = path.join(TEST_DATA_DIR, "journal.jsonl");
+
+process.env.JOURNAL_PATH = TEST_JOURNAL_PATH;
+process.env.ORDERS_PATH = path.join(TEST_DATA_DIR, "orders.json");
+process.env.SCHEDULES_PATH = path.join(TEST_DATA_DIR, "schedules.json");
+process.env.PAPER_BALANCES_PATH = path.join(TEST_DATA_DIR, "paper.json");
+// The fixtures are mainnet pools, priced against the mainnet registry
+process.env.ECLIPSE_NETWORK = "mainnet";
+delete process.env.TOKEN_REGISTRY_PATH;
+// A throwaway wallet, nothing a test does can reach the network
+process.env.SIGNER_BACKEND = "env";
+process.env.WALLET_PRIVATE_KEY = base58.encode(Keypair.generate().secretKey);
+
+// Three synthetic ETH/USDC pools in the snapshot format, priced at about
+// 3000 USDC per ETH: 0.01% and 0.05% with the same deep liquidity, and a
+// shallow 0.02% pool that can't fill a whole ETH
+export const ETH_USDC_FIXTURE_PATH = path.join(
+  __dirname,
+  "fixtures",
+  "eth-usdc.json"
+);
+
+// USDC on mainnet, as in tokens.json
+export const USDC_MINT = new PublicKey(
+  "AKEWE7Bgh87GPp171b4cJPSSZfmZwQ3KaqYqXoKLNAEE"
+);
+
+export function removeTestData() {
+  fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+}
@@ -0,0 +1,183 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  getMint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import fs from "fs";
+
+import { getNetworkConfig } from "./network";
+
+export interface TokenInfo {
+  symbol: string;
+  name?: string;
+  mint: PublicKey;
+  decimals: number;
+  tokenProgram: PublicKey;
+}
+
+// Shape of a single entry in the token registry file
+interface TokenRegistryEntry {
+  symbol: string;
+  name?: string;
+  mint: string;
+  decimals: number;
+  tokenProgram: string;
+}
+
+
+const tokensBySymbol = new Map<string, TokenInfo>();
+const tokensByMint = new Map<string, TokenInfo>();
+let loaded = false;
+
+function registerToken(token: TokenInfo) {
+  tokensBySymbol.set(token.symbol.toUpperCase(), token);
+  if (!tokensByMint.has(token.mint.toBase58())) {
+    tokensByMint.set(token.mint.toBase58(), token);
+  }
+}
+
+/**
+ * Loads the token registry from a JSON file, replacing any tokens loaded before
+ * @param registryPath Path to the registry file
+ */
+export function loadTokenRegistry(
+  // The network's registry, can be overridden with TOKEN_REGISTRY_PATH
+  registryPath: string = process.env.TOKEN_REGISTRY_PATH ||
+    getNetworkConfig().tokenRegistryPath
+): TokenInfo[] {
+  if (!fs.existsSync(registryPath)) {
+    throw new Error(
+      `No token registry for the ${getNetworkConfig().name} network at ${registryPath}. ` +
+        "Create it with the network's mints or point TOKEN_REGISTRY_PATH at one"
+    );
+  }
+
+  let entries: TokenRegistryEntry[];
+  try {
+    entries = JSON.parse(fs.readFileSync(registryPath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read token registry at ${registryPath}. Error: ` + error
+    );
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`Token registry at ${registryPath} must be a JSON array`);
+  }
+
+  tokensBySymbol.clear();
+  tokensByMint.clear();
+  for (const entry of entries) {
+    if (!entry.symbol || !entry.mint || entry.decimals === undefined) {
+      throw new Error(
+        `Invalid token registry entry: ${JSON.stringify(entry)}`
+      );
+    }
+    registerToken({
+      symbol: entry.symbol,
+      name: entry.name,
+      mint: new PublicKey(entry.mint),
+      decimals: entry.decimals,
+      tokenProgram: new PublicKey(entry.tokenProgram || TOKEN_PROGRAM_ID),
+    });
+  }
+  loaded = true;
+
+  return listTokens();
+}
+
+function ensureLoaded() {
+  if (!loaded) {
+    loadTokenRegistry();
+  }
+}
+
+// List every token known to the registry
+export function listTokens(): TokenInfo[] {
+  ensureLoaded();
+  return Array.from(tokensBySymbol.values());
+}
+
+// Look up a token by its symbol (case-insensitive)
+export function getTokenBySymbol(symbol: string): TokenInfo | undefined {
+  ensureLoaded();
+  return tokensBySymbol.get(symbol.toUpperCase());
+}
+
+// Look up a token by its mint address
+export function getTokenByMint(mint: PublicKey): TokenInfo | undefined {
+  ensureLoaded();
+  return tokensByMint.get(mint.toBase58());
+}
+
+/**
+ * Resolves a mint to its token info. Mints missing from the registry are read
+ * from chain, and the owning program and decimals are cached for later calls.
+ */
+export async function resolveToken(
+  connection: Connection,
+  mint: PublicKey
+): Promise<TokenInfo> {
+  const known = getTokenByMint(mint);
+  if (known) {
+    return known;
+  }
+
+  const accountInfo = await connection.getAccountInfo(mint, "confirmed");
+  if (!accountInfo) {
+    throw new Error(`Mint account ${mint.toBase58()} not found`);
+  }
+
+  const tokenProgram = accountInfo.owner;
+  if (
+    !tokenProgram.equals(TOKEN_PROGRAM_ID) &&
+    !tokenProgram.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(
+      `Account ${mint.toBase58()} is not a token mint (owner ${tokenProgram.toBase58()})`
+    );
+  }
+
+  const mintInfo = await getMint(connection, mint, "confirmed", tokenProgram);
+  const token: TokenInfo = {
+    symbol: mint.toBase58(),
+    mint,
+    decimals: mintInfo.decimals,
+    tokenProgram,
+  };
+  // Cache by mint only, so unknown tokens never shadow registered symbols
+  tokensByMint.set(mint.toBase58(), token);
+
+  return token;
+}
+
+/**
+ * Resolves a token from either a registered symbol or a mint address
+ */
+export async function resolveTokenInput(
+  connection: Connection,
+  symbolOrMint: string
+): Promise<TokenInfo> {
+  const bySymbol = getTokenBySymbol(symbolOrMint);
+  if (bySymbol) {
+    return bySymbol;
+  }
+
+  let mint: PublicKey;
+  try {
+    mint = new PublicKey(symbolOrMint);
+  } catch (error) {
+    throw new Error(`Unknown token ${symbolOrMint}`);
+  }
+
+  return resolveToken(connection, mint);
+}
+
+// Get the token program that owns the given mint
+export async function getTokenProgram(
+  connection: Connection,
+  mint: PublicKey
+): Promise<PublicKey> {
+  return (await resolveToken(connection, mint)).tokenProgram;
+}
@@ -0,0 +1,390 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  SignatureStatus,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { INVARIANT_ERRORS } from "@invariant-labs/sdk-eclipse";
+import base58 from "bs58";
+
+import type { Signer } from "./signer";
+import { SEND_MAX_RESIGNS, SEND_REBROADCAST_INTERVAL_MS } from "./config";
+
+// Custom error the Invariant program raises when the price moves past the swap's slippage limit
+const PRICE_LIMIT_REACHED = parseInt(INVARIANT_ERRORS.PRICE_LIMIT_REACHED, 16);
+
+// Custom error the token and system programs raise when an account can't cover a transfer
+const INSUFFICIENT_FUNDS = 1;
+
+const BALANCE_PROGRAMS = [
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  SystemProgram.programId,
+];
+
+export type SendFailureKind =
+  // The blockhash expired before the transaction landed
+  | "expired"
+  // The pool price moved past the slippage limit
+  | "slippageExceeded"
+  // The wallet can't cover the transfer, the fee or the rent
+  | "insufficientFunds"
+  // Any other error raised by a program
+  | "programError";
+
+export interface SendFailure {
+  kind: SendFailureKind;
+  message: string;
+  logs?: string[];
+}
+
+export type SendOutcome =
+  | {
+      status: "confirmed";
+      signature: string;
+      slot: number;
+      // Times the transaction was broadcast, across every blockhash
+      broadcasts: number;
+      // Times it was signed again with a fresh blockhash
+      resigns: number;
+    }
+  | (SendFailure & {
+      status: "failed";
+      // Missing when the transaction failed before it was broadcast
+      signature?: string;
+      broadcasts: number;
+      resigns: number;
+    });
+
+export type FailedSend = Extract<SendOutcome, { status: "failed" }>;
+
+export interface SendOptions {
+  // Delay between broadcasts of the same transaction
+  rebroadcastIntervalMs?: number;
+  // How many times an expired transaction is signed again with a fresh blockhash
+  maxResigns?: number;
+  commitment?: Commitment;
+}
+
+// Thrown by callers that need a signature when a transaction doesn't land
+export class TransactionFailedError extends Error {
+  readonly outcome: FailedSend;
+
+  constructor(outcome: FailedSend) {
+    super(
+      `Transaction${outcome.signature ? ` ${outcome.signature}` : ""} failed (${
+        outcome.kind
+      }): ${outcome.message}`
+    );
+    this.name = "TransactionFailedError";
+    this.outcome = outcome;
+  }
+}
+
+// Thrown when an RPC error cuts a broadcast transaction's confirmation short
+export class TransactionUnconfirmedError extends Error {
+  readonly signature: string;
+
+  constructor(signature: string, error: unknown) {
+    super(
+      `Transaction ${signature} may have landed, confirming it failed: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+    this.name = "TransactionUnconfirmedError";
+    this.signature = signature;
+  }
+}
+
+/**
+ * Whether a failed send proves the transaction never landed, so trying again
+ * can't act twice: it failed its preflight simulation before being broadcast,
+ * or its blockhash expired with its signature still unknown. Anything thrown
+ * once it was broadcast, such as an RPC error, proves nothing.
+ */
+export function provesNotLanded(error: unknown): boolean {
+  return (
+    error instanceof TransactionFailedError &&
+    (error.outcome.signature === undefined || error.outcome.kind === "expired")
+  );
+}
+
+/**
+ * Whether an error may leave a transaction on chain: it was broadcast and
+ * then failed, or confirming it was cut short. Every other error was raised
+ * before anything was broadcast, e.g. while quoting or in a preflight.
+ */
+export function mayHaveLanded(error: unknown): boolean {
+  return (
+    error instanceof TransactionUnconfirmedError ||
+    (error instanceof TransactionFailedError && !provesNotLanded(error))
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isBalanceProgram(programId: PublicKey | undefined): boolean {
+  return (
+    programId !== undefined &&
+    BALANCE_PROGRAMS.some((program) => program.equals(programId))
+  );
+}
+
+/**
+ * Sorts a transaction error, as returned by a simulation or a signature
+ * status, into the kinds callers act on
+ * @param instructions The transaction's instructions, to tell which program
+ * raised an instruction error
+ */
+export function classifyTransactionError(
+  err: unknown,
+  instructions: TransactionInstruction[],
+  logs?: string[]
+): SendFailure {
+  const message = JSON.stringify(err);
+  const failure = (kind: SendFailureKind): SendFailure => ({
+    kind,
+    message,
+    logs,
+  });
+
+  if (err === "BlockhashNotFound") {
+    return failure("expired");
+  }
+  if (
+    err === "InsufficientFundsForFee" ||
+    err === "AccountNotFound" ||
+    (typeof err === "object" &&
+      err !== null &&
+      "InsufficientFundsForRent" in err)
+  ) {
+    return failure("insufficientFunds");
+  }
+
+  if (typeof err === "object" && err !== null && "InstructionError" in err) {
+    const [index, detail] = (err as { InstructionError: [number, any] })
+      .InstructionError;
+    const programId = instructions[index]?.programId;
+    const code = detail?.Custom;
+
+    if (code === INSUFFICIENT_FUNDS && isBalanceProgram(programId)) {
+      return failure("insufficientFunds");
+    }
+    if (code === PRICE_LIMIT_REACHED && !isBalanceProgram(programId)) {
+      return failure("slippageExceeded");
+    }
+  }
+
+  // Fall back on the program logs for errors raised through CPIs
+  const logText = (logs ?? []).join("\n");
+  if (/insufficient (funds|lamports)/i.test(logText)) {
+    return failure("insufficientFunds");
+  }
+  if (/PriceLimitReached/.test(logText)) {
+    return failure("slippageExceeded");
+  }
+  return failure("programError");
+}
+
+// Simulates a signed transaction against its own blockhash, null if it would succeed
+async function preflight(
+  connection: Connection,
+  transaction: Transaction,
+  commitment: Commitment
+): Promise<SendFailure | null> {
+  const { value } = await connection.simulateTransaction(
+    new VersionedTransaction(transaction.compileMessage()),
+    { sigVerify: false, commitment }
+  );
+  if (!value.err) {
+    return null;
+  }
+  return classifyTransactionError(
+    value.err,
+    transaction.instructions,
+    value.logs ?? undefined
+  );
+}
+
+/**
+ * Broadcasts a signed transaction every rebroadcastIntervalMs until it is
+ * confirmed, fails on chain or its blockhash expires. Expiry is only reported
+ * once the signature is still unknown after the last valid block height, so
+ * the transaction can no longer land.
+ * @throws TransactionUnconfirmedError if checking its status fails
+ */
+async function broadcastUntilExpired(
+  connection: Connection,
+  transaction: Transaction,
+  lastValidBlockHeight: number,
+  intervalMs: number,
+  commitment: Commitment
+): Promise<SendOutcome> {
+  const rawTransaction = transaction.serialize();
+  const signature = base58.encode(transaction.signature!);
+  let broadcasts = 0;
+
+  for (;;) {
+    try {
+      await connection.sendRawTransaction(rawTransaction, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+      broadcasts++;
+    } catch (error) {
+      // The status check below decides what happens, the next round resends
+      console.log(
+        `Broadcast of ${signature} failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+    await sleep(intervalMs);
+
+    let expired: boolean;
+    let status: SignatureStatus | null;
+    try {
+      expired =
+        (await connection.getBlockHeight(commitment)) > lastValidBlockHeight;
+      ({
+        value: [status],
+      } = await connection.getSignatureStatuses([signature], {
+        searchTransactionHistory: expired,
+      }));
+    } catch (error) {
+      // A broadcast may have reached the leader before the check failed
+      throw new TransactionUnconfirmedError(signature, error);
+    }
+
+    if (status?.err) {
+      return {
+        status: "failed",
+        signature,
+        broadcasts,
+        resigns: 0,
+        ...classifyTransactionError(status.err, transaction.instructions),
+      };
+    }
+    if (
+      status?.confirmationStatus === "confirmed" ||
+      status?.confirmationStatus === "finalized"
+    ) {
+      return {
+        status: "confirmed",
+        signature,
+        slot: status.slot,
+        broadcasts,
+        resigns: 0,
+      };
+    }
+    if (expired && !status) {
+      return {
+        status: "failed",
+        kind: "expired",
+        message: `Blockhash expired after block height ${lastValidBlockHeight}`,
+        signature,
+        broadcasts,
+        resigns: 0,
+      };
+    }
+  }
+}
+
+/**
+ * Signs and sends a transaction until it lands. The first signer pays the
+ * fee. When the blockhash expires without the transaction landing it is
+ * signed again with a fresh one, up to maxResigns times. Failures are
+ * returned as a typed outcome rather than thrown; only RPC errors throw, as
+ * TransactionUnconfirmedError once the transaction was broadcast.
+ */
+export async function sendTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  signers: Signer[],
+  options: SendOptions = {}
+): Promise<SendOutcome> {
+  const {
+    rebroadcastIntervalMs = SEND_REBROADCAST_INTERVAL_MS,
+    maxResigns = SEND_MAX_RESIGNS,
+    commitment = "confirmed",
+  } = options;
+  let broadcasts = 0;
+
+  for (let resigns = 0; ; resigns++) {
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash(commitment);
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = signers[0].publicKey;
+    for (const signer of signers) {
+      await signer.signTransaction(transaction);
+    }
+
+    const failure = await preflight(connection, transaction, commitment);
+    let outcome: SendOutcome;
+    if (failure) {
+      outcome = { status: "failed", broadcasts: 0, resigns, ...failure };
+    } else {
+      outcome = await broadcastUntilExpired(
+        connection,
+        transaction,
+        lastValidBlockHeight,
+        rebroadcastIntervalMs,
+        commitment
+      );
+      broadcasts += outcome.broadcasts;
+    }
+
+    const result: SendOutcome = { ...outcome, broadcasts, resigns };
+    if (
+      result.status === "confirmed" ||
+      result.kind !== "expired" ||
+      resigns >= maxResigns
+    ) {
+      return result;
+    }
+    console.log(
+      `Blockhash expired, signing again (${resigns + 1}/${maxResigns})`
+    );
+  }
+}
+
+/**
+ * Sends a transaction someone else signed until it lands. It can't be signed
+ * again, so an expired blockhash ends the attempt.
+ * @param lastValidBlockHeight Last block height the transaction's blockhash is
+ * valid for, estimated from the latest blockhash when omitted
+ */
+export async function sendSignedTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  lastValidBlockHeight?: number,
+  options: SendOptions = {}
+): Promise<SendOutcome> {
+  const {
+    rebroadcastIntervalMs = SEND_REBROADCAST_INTERVAL_MS,
+    commitment = "confirmed",
+  } = options;
+
+  const failure = await preflight(connection, transaction, commitment);
+  if (failure) {
+    return { status: "failed", broadcasts: 0, resigns: 0, ...failure };
+  }
+
+  const blockHeight =
+    lastValidBlockHeight ??
+    (await connection.getLatestBlockhash(commitment)).lastValidBlockHeight;
+  return broadcastUntilExpired(
+    connection,
+    transaction,
+    blockHeight,
+    rebroadcastIntervalMs,
+    commitment
+  );
+}
@@ -0,0 +1,54 @@
+import { removeTestData } from "./test-env";
+
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import { Keypair, SystemProgram, Transaction } from "@solana/web3.js";
+
+import { stopPoolCache } from "./pool-cache";
+import {
+  InvalidSignedTransactionError,
+  submitSignedTransaction,
+} from "./unsigned-transactions";
+
+// Any 32 bytes in base58 pass as a blockhash, nothing is sent
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+after(() => {
+  stopPoolCache();
+  removeTestData();
+});
+
+function transferTransaction(payer: Keypair): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    })
+  );
+  transaction.feePayer = payer.publicKey;
+  transaction.recentBlockhash = BLOCKHASH;
+  return transaction;
+}
+
+describe("submitSignedTransaction", () => {
+  test("rejects base64 that isn't a transaction", async () => {
+    const garbage = Buffer.from("not a transaction").toString("base64");
+
+    await assert.rejects(
+      submitSignedTransaction(garbage),
+      InvalidSignedTransactionError
+    );
+  });
+
+  test("rejects a transaction without its signatures", async () => {
+    const serialized = transferTransaction(Keypair.generate()).serialize({
+      requireAllSignatures: false,
+    });
+
+    await assert.rejects(
+      submitSignedTransaction(serialized.toString("base64")),
+      { name: "InvalidSignedTransactionError", message: /missing signatures/ }
+    );
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import { Market } from "@invariant-labs/sdk-eclipse";
+import BN from "bn.js";
+
+import {
+  assertCanFillQuote,
+  buildQuoteTransaction,
+  buildUnwrapInstruction,
+  buildWrapInstructions,
+  connection,
+} from "./app";
+import { getTokenProgram } from "./token-registry";
+import { applyComputeBudget, ComputeBudgetOptions } from "./compute-budget";
+import { DEFAULT_SLIPPAGE_BPS } from "./config";
+import { assertMinAmountOut } from "./slippage";
+import { getQuotes, isQuoteOk, PoolQuote, SwapMode } from "./quote";
+import { isDryRun, simulateDryRun } from "./paper";
+import {
+  sendSignedTransaction,
+  TransactionFailedError,
+} from "./transaction-sender";
+
+// A transaction for a wallet to sign, with the blockhash it was built against
+export interface UnsignedTransaction {
+  // Base64 of the serialized transaction, without signatures
+  transaction: string;
+  feePayer: PublicKey;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+export interface UnsignedSwap {
+  unsigned: UnsignedTransaction;
+  quote: PoolQuote;
+  quotesConsidered: number;
+}
+
+export interface UnsignedSwapParams {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  // Input to spend for exactIn, output to buy for exactOut, in base units
+  amount: BN;
+  // Wallet that will sign and pay for the swap
+  owner: PublicKey;
+  mode?: SwapMode;
+  slippageBps?: number;
+  minAmountOut?: BN;
+  nativeEth?: boolean;
+  computeBudget?: ComputeBudgetOptions;
+}
+
+/**
+ * Adds the compute budget, sets a recent blockhash and fee payer on a
+ * transaction and serializes it without signatures, ready to be signed by a
+ * wallet
+ */
+export async function serializeUnsigned(
+  transaction: Transaction,
+  feePayer: PublicKey,
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<UnsignedTransaction> {
+  await applyComputeBudget(connection, transaction, feePayer, computeBudget);
+
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash("confirmed");
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = feePayer;
+
+  const serialized = transaction.serialize({
+    requireAllSignatures: false,
+    verifySignatures: false,
+  });
+
+  return {
+    transaction: serialized.toString("base64"),
+    feePayer,
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+// Instruction creating the owner's token account for a mint, a no-op if it exists
+async function buildCreateAccountInstruction(
+  mint: PublicKey,
+  owner: PublicKey
+): Promise<TransactionInstruction> {
+  const tokenProgram = await getTokenProgram(connection, mint);
+  return createAssociatedTokenAccountIdempotentInstruction(
+    owner,
+    getAssociatedTokenAddressSync(mint, owner, true, tokenProgram),
+    owner,
+    mint,
+    tokenProgram,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+}
+
+// Unsigned transaction creating the owner's associated token account for a mint
+export async function buildCreateAccountTransaction(
+  mint: PublicKey,
+  owner: PublicKey,
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<UnsignedTransaction> {
+  const transaction = new Transaction().add(
+    await buildCreateAccountInstruction(mint, owner)
+  );
+  return serializeUnsigned(transaction, owner, computeBudget);
+}
+
+/**
+ * Unsigned transaction wrapping native ETH into the owner's WSOL account
+ * @throws if the owner's balance can't cover the amount and the fee
+ */
+export async function buildWrapTransaction(
+  amountInSol: number,
+  owner: PublicKey,
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<UnsignedTransaction> {
+  const lamportsToWrap = Math.floor(amountInSol * LAMPORTS_PER_SOL);
+
+  const balance = await connection.getBalance(owner);
+  if (balance < lamportsToWrap + 5000) {
+    // Reserve 5000 lamports for transaction fees
+    throw new Error(
+      `Insufficient balance. Need ${
+        (lamportsToWrap + 5000) / LAMPORTS_PER_SOL
+      } SOL, but only have ${balance / LAMPORTS_PER_SOL} SOL`
+    );
+  }
+
+  const transaction = new Transaction().add(
+    ...buildWrapInstructions(owner, lamportsToWrap)
+  );
+  return serializeUnsigned(transaction, owner, computeBudget);
+}
+
+// Unsigned transaction closing the owner's WSOL account back into native ETH
+export async function buildUnwrapTransaction(
+  owner: PublicKey,
+  computeBudget: ComputeBudgetOptions = {}
+): Promise<UnsignedTransaction> {
+  const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+  if (!(await connection.getAccountInfo(wsolAccount))) {
+    throw new Error(`No WSOL account to unwrap: ${wsolAccount.toBase58()}`);
+  }
+
+  const transaction = new Transaction().add(buildUnwrapInstruction(owner));
+  return serializeUnsigned(transaction, owner, computeBudget);
+}
+
+/**
+ * Quotes every direct pool for the pair and builds an unsigned transaction for
+ * the best one. The output token account is created in the same transaction.
+ * @throws if no pool can fill the swap, the output is below minAmountOut or
+ * the owner can't cover the input
+ */
+export async function buildSwapTransaction(
+  market: Market,
+  params: UnsignedSwapParams
+): Promise<UnsignedSwap> {
+  const {
+    inputMint,
+    outputMint,
+    amount,
+    owner,
+    mode = "exactIn",
+    slippageBps = DEFAULT_SLIPPAGE_BPS,
+    minAmountOut,
+    nativeEth = false,
+    computeBudget,
+  } = params;
+
+  const quotes = await getQuotes(
+    market,
+    inputMint,
+    [outputMint],
+    amount,
+    slippageBps,
+    mode
+  );
+  const quote = quotes.find(isQuoteOk);
+  if (!quote) {
+    throw new Error(
+      quotes.length === 0
+        ? "No pools found for this token pair"
+        : `No pool could simulate this swap: ${quotes
+            .map((quote) => quote.status)
+            .join(", ")}`
+    );
+  }
+
+  assertMinAmountOut(quote.amountOut, minAmountOut);
+  await assertCanFillQuote(quote, owner, nativeEth);
+
+  const transaction = new Transaction();
+  // Native output is received through a WSOL account the swap transaction creates itself
+  if (!(nativeEth && outputMint.equals(NATIVE_MINT))) {
+    transaction.add(await buildCreateAccountInstruction(outputMint, owner));
+  }
+  transaction.add(
+    await buildQuoteTransaction(market, quote, owner, {
+      slippageBps,
+      nativeEth,
+    })
+  );
+
+  return {
+    unsigned: await serializeUnsigned(transaction, owner, computeBudget),
+    quote,
+    quotesConsidered: quotes.length,
+  };
+}
+
+// Thrown when a submitted transaction can't be decoded or isn't fully signed
+export class InvalidSignedTransactionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSignedTransactionError";
+  }
+}
+
+// Decodes a signed transaction, checking it can be broadcast as it is
+function parseSignedTransaction(signedTransaction: string): Transaction {
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.from(Buffer.from(signedTransaction, "base64"));
+  } catch (error) {
+    throw new InvalidSignedTransactionError(
+      `Not a serialized transaction: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (!transaction.recentBlockhash) {
+    throw new InvalidSignedTransactionError(
+      "Signed transaction has no recent blockhash"
+    );
+  }
+  if (!transaction.feePayer) {
+    throw new InvalidSignedTransactionError(
+      "Signed transaction has no fee payer"
+    );
+  }
+  if (!transaction.verifySignatures()) {
+    throw new InvalidSignedTransactionError(
+      "Transaction is missing signatures"
+    );
+  }
+  return transaction;
+}
+
+/**
+ * Broadcasts a transaction signed by a wallet until it is confirmed. In
+ * dry-run mode it is only simulated, and no paper balance changes since the
+ * wallet signed it outside the server.
+ * @param signedTransaction Base64 of the signed transaction
+ * @param lastValidBlockHeight Returned with the unsigned transaction, used to
+ * stop once its blockhash expires
+ * @throws InvalidSignedTransactionError if it can't be decoded or isn't signed
+ * @throws TransactionFailedError if it fails on chain or its blockhash expires
+ */
+export async function submitSignedTransaction(
+  signedTransaction: string,
+  lastValidBlockHeight?: number
+): Promise<string> {
+  const transaction = parseSignedTransaction(signedTransaction);
+  if (isDryRun()) {
+    return (
+      await simulateDryRun(connection, transaction, transaction.feePayer!)
+    ).signature;
+  }
+
+  const outcome = await sendSignedTransaction(
+    connection,
+    transaction,
+    lastValidBlockHeight
+  );
+  if (outcome.status === "failed") {
+    throw new TransactionFailedError(outcome);
+  }
+  return outcome.signature;
+}
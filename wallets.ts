@@ -0,0 +1,284 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import BN from "bn.js";
+
+import {
+  connection,
+  createAssociatedTokenAccount,
+  getNativeBalance,
+  getTokenBalance,
+  swap,
+  SwapParams,
+  SwapResult,
+  wrapSol,
+} from "./app";
+import { getStoredKeypair } from "./get-keypair";
+import { resolveTokenInput } from "./token-registry";
+import { decryptKeystore, keypairSigner, Keystore, Signer } from "./signer";
+import { WALLETS_DIR } from "./config";
+import { getCliOption } from "./cli";
+
+// A trading wallet and the label it is stored under
+export interface Wallet {
+  label: string;
+  signer: Signer;
+}
+
+export interface WalletResult<T> {
+  label: string;
+  publicKey: string;
+  result?: T;
+  error?: string;
+}
+
+// Per-wallet outcome of one operation run across several wallets
+export interface WalletReport<T> {
+  operation: string;
+  results: WalletResult<T>[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface WalletBalance {
+  lamports: number;
+  // Token balances in base units, keyed by mint
+  tokens: Record<string, string>;
+}
+
+// Read a wallet file, either a plaintext keypair or an encrypted keystore
+function loadWalletFile(keyPath: string, password?: string): Signer {
+  const content = JSON.parse(fs.readFileSync(keyPath, "utf-8"));
+  if (!content.crypto) {
+    return keypairSigner(getStoredKeypair(keyPath));
+  }
+  if (!password) {
+    throw new Error(
+      `${keyPath} is an encrypted keystore, set WALLET_KEYSTORE_PASSWORD`
+    );
+  }
+  return keypairSigner(decryptKeystore(content as Keystore, password));
+}
+
+/**
+ * Loads every wallet in the wallets directory, labelled by file name.
+ * Keystores are decrypted with the given password.
+ */
+export function loadWallets(
+  walletsDir: string = WALLETS_DIR,
+  password: string | undefined = process.env.WALLET_KEYSTORE_PASSWORD
+): Wallet[] {
+  if (!fs.existsSync(walletsDir)) {
+    throw new Error(
+      `No wallets directory at ${walletsDir}. Generate wallets with generate-keypair.ts --count`
+    );
+  }
+
+  return fs
+    .readdirSync(walletsDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => ({
+      label: path.basename(file, ".json"),
+      signer: loadWalletFile(path.join(walletsDir, file), password),
+    }));
+}
+
+/**
+ * Picks wallets by label, or all of them when no labels are given
+ * @throws if a label doesn't match any wallet
+ */
+export function selectWallets(wallets: Wallet[], labels?: string[]): Wallet[] {
+  if (!labels || labels.length === 0) {
+    return wallets;
+  }
+
+  const unknown = labels.filter(
+    (label) => !wallets.some((wallet) => wallet.label === label)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown wallets: ${unknown.join(", ")}`);
+  }
+  return wallets.filter((wallet) => labels.includes(wallet.label));
+}
+
+/**
+ * Runs an operation for each wallet in turn and collects the results. A
+ * failing wallet is recorded in the report and doesn't stop the others.
+ */
+export async function runForWallets<T>(
+  operation: string,
+  wallets: Wallet[],
+  run: (wallet: Wallet) => Promise<T>
+): Promise<WalletReport<T>> {
+  const results: WalletResult<T>[] = [];
+
+  for (const wallet of wallets) {
+    const publicKey = wallet.signer.publicKey.toBase58();
+    console.log(`\n--- ${operation}: ${wallet.label} (${publicKey}) ---`);
+    try {
+      results.push({
+        label: wallet.label,
+        publicKey,
+        result: await run(wallet),
+      });
+    } catch (error) {
+      console.log(`${operation} failed for ${wallet.label}:`, error);
+      results.push({
+        label: wallet.label,
+        publicKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const failed = results.filter((result) => result.error !== undefined).length;
+  return { operation, results, succeeded: results.length - failed, failed };
+}
+
+// Native and token balances of every wallet
+export function getWalletBalances(
+  wallets: Wallet[],
+  mints: PublicKey[] = []
+): Promise<WalletReport<WalletBalance>> {
+  return runForWallets("balance", wallets, async ({ signer }) => {
+    const lamports = (await getNativeBalance(signer.publicKey)).toNumber();
+    console.log(`Wallet balance: ${lamports / LAMPORTS_PER_SOL} ETH`);
+
+    const tokens: Record<string, string> = {};
+    for (const mint of mints) {
+      tokens[mint.toBase58()] = (
+        await getTokenBalance(mint, signer.publicKey)
+      ).toString();
+    }
+    return { lamports, tokens };
+  });
+}
+
+// Create the associated token account for a mint in every wallet
+export function createTokenAccounts(
+  wallets: Wallet[],
+  mint: PublicKey
+): Promise<WalletReport<string>> {
+  return runForWallets("create token account", wallets, async ({ signer }) => {
+    await createAssociatedTokenAccount(mint, signer);
+    return mint.toBase58();
+  });
+}
+
+// Wrap the same amount of native ETH in every wallet
+export function wrapForWallets(
+  wallets: Wallet[],
+  amountInSol: number
+): Promise<WalletReport<string>> {
+  return runForWallets("wrap", wallets, async ({ signer }) =>
+    (await wrapSol(amountInSol, signer)).toBase58()
+  );
+}
+
+/**
+ * Runs the same swap from every wallet. The amount can be a function of the
+ * wallet, for example to size each swap from that wallet's balance.
+ */
+export function swapForWallets(
+  wallets: Wallet[],
+  params: Omit<SwapParams, "owner" | "amount"> & {
+    amount: BN | ((wallet: Wallet) => Promise<BN>);
+  }
+): Promise<WalletReport<SwapResult>> {
+  return runForWallets("swap", wallets, async (wallet) => {
+    const amount =
+      typeof params.amount === "function"
+        ? await params.amount(wallet)
+        : params.amount;
+    return swap({ ...params, amount, owner: wallet.signer });
+  });
+}
+
+// Log a one-line summary per wallet
+export function printWalletReport<T>(
+  report: WalletReport<T>,
+  describe: (result: T) => string = (result) => JSON.stringify(result)
+) {
+  console.log(
+    `\n=== ${report.operation.toUpperCase()}: ${report.succeeded} succeeded, ${report.failed} failed ===`
+  );
+  for (const result of report.results) {
+    console.log(
+      `  ${result.label} (${result.publicKey}): ${
+        result.error !== undefined
+          ? `FAILED - ${result.error}`
+          : describe(result.result as T)
+      }`
+    );
+  }
+}
+
+// Usage: ts-node wallets.ts <balance|ata|wrap|swap> [args] [--wallets a,b]
+//   balance [token...]         native and token balances
+//   ata <token>                create the token account
+//   wrap <amountInSol>         wrap native ETH into WSOL
+//   swap <from> <to> <amount>  swap an amount in base units
+async function main() {
+  const [command, ...args] = process.argv
+    .slice(2)
+    .filter((arg, i, all) => arg !== "--wallets" && all[i - 1] !== "--wallets");
+  const labels = getCliOption("wallets")?.split(",");
+  const wallets = selectWallets(loadWallets(), labels);
+  console.log(`Running ${command} on ${wallets.length} wallets`);
+
+  switch (command) {
+    case "balance": {
+      const mints = await Promise.all(
+        args.map(
+          async (token) => (await resolveTokenInput(connection, token)).mint
+        )
+      );
+      printWalletReport(
+        await getWalletBalances(wallets, mints),
+        ({ lamports, tokens }) =>
+          [`${lamports / LAMPORTS_PER_SOL} ETH`]
+            .concat(
+              Object.entries(tokens).map(
+                ([mint, amount]) => `${amount} ${mint}`
+              )
+            )
+            .join(", ")
+      );
+      break;
+    }
+    case "ata": {
+      const { mint } = await resolveTokenInput(connection, args[0]);
+      printWalletReport(await createTokenAccounts(wallets, mint));
+      break;
+    }
+    case "wrap":
+      printWalletReport(await wrapForWallets(wallets, Number(args[0])));
+      break;
+    case "swap": {
+      const [from, to, amount] = args;
+      printWalletReport(
+        await swapForWallets(wallets, {
+          inputMint: (await resolveTokenInput(connection, from)).mint,
+          outputMint: (await resolveTokenInput(connection, to)).mint,
+          amount: new BN(amount),
+        }),
+        (result) =>
+          `${result.amountIn.toString()} -> ${result.amountOut.toString()} (${result.signature})`
+      );
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown command "${command}", expected balance, ata, wrap or swap`
+      );
+  }
+}
+
+// Only run the CLI when executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+  });
+}